@@ -0,0 +1,163 @@
+import { addComponentToProjenrc, findComponent, renderComponentArgs } from '../cli/components';
+import * as inventory from '../inventory';
+
+const components = inventory.discoverComponents();
+
+const JS_PROJENRC = [
+  'const { TypeScriptProject } = require(\'projen\');',
+  'const project = new TypeScriptProject({',
+  '  defaultReleaseBranch: \'main\',',
+  '  name: \'my-project\',',
+  '});',
+  'project.synth();',
+].join('\n');
+
+const TS_PROJENRC = [
+  'import { JsiiProject } from \'projen\';',
+  'const project = new JsiiProject({',
+  '  author: \'Jane Doe\',',
+  '});',
+  '',
+  'project.synth();',
+].join('\n');
+
+test('components are found by fqn, type name or class name', () => {
+  expect(findComponent(components, 'projen.Gitpod').typename).toStrictEqual('Gitpod');
+  expect(findComponent(components, 'gitpod').typename).toStrictEqual('Gitpod');
+  expect(findComponent(components, 'vscode.devcontainer').typename).toStrictEqual('vscode.DevContainer');
+  expect(findComponent(components, 'DevContainer').typename).toStrictEqual('vscode.DevContainer');
+  expect(() => findComponent(components, 'Unknown')).toThrow(/Unknown component "Unknown"/);
+});
+
+test('primitive arguments and options are rendered', () => {
+  const makefile = findComponent(components, 'Makefile');
+
+  expect(renderComponentArgs(makefile, ['Makefile'])).toStrictEqual(['\'Makefile\'']);
+  expect(renderComponentArgs(makefile, ['Makefile'], '{ "all": ["build"] }')).toStrictEqual(['\'Makefile\'', '{ all: [\'build\'] }']);
+  expect(() => renderComponentArgs(makefile, [])).toThrow(/Makefile requires the "filePath" argument/);
+  expect(() => renderComponentArgs(makefile, ['a', 'b'])).toThrow(/Makefile accepts 1 argument\(s\) but 2 were specified/);
+  expect(() => renderComponentArgs(makefile, ['Makefile'], '{ "foo": 1 }')).toThrow(/Invalid options for Makefile: .*foo/);
+  expect(() => renderComponentArgs(makefile, ['Makefile'], '{ all')).toThrow(/Invalid JSON for --options/);
+});
+
+test('component is added to .projenrc.js', () => {
+  // WHEN
+  const source = addComponentToProjenrc(JS_PROJENRC, {
+    component: findComponent(components, 'Gitpod'),
+    args: ['{ prebuilds: { pullRequests: true } }'],
+    typescript: false,
+  });
+
+  // THEN
+  expect(source).toStrictEqual([
+    'const { Gitpod, TypeScriptProject } = require(\'projen\');',
+    'const project = new TypeScriptProject({',
+    '  defaultReleaseBranch: \'main\',',
+    '  name: \'my-project\',',
+    '});',
+    '',
+    'new Gitpod(project, { prebuilds: { pullRequests: true } });',
+    '',
+    'project.synth();',
+  ].join('\n'));
+});
+
+test('submodule components are added to the scope they require', () => {
+  // WHEN
+  const source = addComponentToProjenrc(TS_PROJENRC, {
+    component: findComponent(components, 'github.Mergify'),
+    args: [],
+    typescript: true,
+  });
+
+  // THEN
+  expect(source).toStrictEqual([
+    'import { JsiiProject, github } from \'projen\';',
+    'const project = new JsiiProject({',
+    '  author: \'Jane Doe\',',
+    '});',
+    '',
+    'new github.Mergify(project.github!);',
+    '',
+    'project.synth();',
+  ].join('\n'));
+});
+
+test('optional scopes are checked in .projenrc.js', () => {
+  // WHEN
+  const source = addComponentToProjenrc(JS_PROJENRC, {
+    component: findComponent(components, 'github.Mergify'),
+    args: [],
+    typescript: false,
+  });
+
+  // THEN
+  expect(source).toContain([
+    'if (project.github) {',
+    '  new github.Mergify(project.github);',
+    '}',
+    '',
+    'project.synth();',
+  ].join('\n'));
+});
+
+test('the project is found among other "new" expressions', () => {
+  // GIVEN
+  const projenrc = [
+    'const { TypeScriptProject } = require(\'projen\');',
+    'const now = new Date();',
+    '// const old = new Project({});',
+    'const project = new TypeScriptProject({',
+    '  defaultReleaseBranch: \'main\',',
+    '  name: \'my-project\',',
+    '});',
+    'project.synth();',
+  ].join('\n');
+
+  // WHEN
+  const source = addComponentToProjenrc(projenrc, {
+    component: findComponent(components, 'Gitpod'),
+    args: [],
+    typescript: false,
+  });
+
+  // THEN
+  expect(source).toContain('new Gitpod(project);\n\nproject.synth();');
+});
+
+test('projects defined in projenrc are found by their synth() call', () => {
+  // GIVEN
+  const projenrc = [
+    'const { Project } = require(\'projen\');',
+    'class MyProject extends Project {}',
+    'const now = new Date();',
+    'const project = new MyProject({ name: \'my-project\' });',
+    'project.synth();',
+  ].join('\n');
+
+  // WHEN
+  const source = addComponentToProjenrc(projenrc, {
+    component: findComponent(components, 'Gitpod'),
+    args: [],
+    typescript: false,
+  });
+
+  // THEN
+  expect(source).toContain('new Gitpod(project);\n\nproject.synth();');
+});
+
+test('fails if the project does not have the scope of the component', () => {
+  expect(() => addComponentToProjenrc(JS_PROJENRC, {
+    component: findComponent(components, 'python.Pytest'),
+    args: [],
+    typescript: false,
+  })).toThrow(/python.Pytest must be added to a projen.python.PythonProject, which is not available in TypeScriptProject/);
+});
+
+test('fails if project.synth() cannot be found', () => {
+  expect(() => addComponentToProjenrc(JS_PROJENRC.replace('project.synth();', ''), {
+    component: findComponent(components, 'Gitpod'),
+    args: [],
+    typescript: false,
+  })).toThrow(/Unable to find "project.synth\(\)" in projenrc/);
+});
@@ -0,0 +1,93 @@
+import * as path from 'path';
+import * as fs from 'fs-extra';
+import { JsonFile, TextFile } from '..';
+import { execProjenCLI, mkdtemp, TestProject } from './util';
+
+test('check passes when generated files are up-to-date', () => {
+  // GIVEN
+  const p = new TestProject();
+  new JsonFile(p, 'my.json', { obj: { hello: 'world' } });
+  p.synth();
+
+  // THEN
+  expect(() => p.synth({ check: true })).not.toThrow();
+});
+
+test('check fails and lists files that differ', () => {
+  // GIVEN
+  const p = new TestProject();
+  const file = new JsonFile(p, 'my.json', { obj: { hello: 'world' } });
+  p.synth();
+
+  // WHEN
+  file.addOverride('hello', 'you');
+
+  // THEN
+  expect(() => p.synth({ check: true })).toThrow(/1 generated file\(s\) are out of date.*\n.*modified\s+my.json/);
+  expect(fs.readJsonSync(file.absolutePath).hello).toStrictEqual('world');
+});
+
+test('check fails if a generated file is missing or was edited', () => {
+  // GIVEN
+  const p = new TestProject();
+  const json = new JsonFile(p, 'my.json', { obj: { hello: 'world' } });
+  p.synth();
+
+  // WHEN
+  fs.chmodSync(json.absolutePath, '600');
+  fs.writeFileSync(json.absolutePath, JSON.stringify({ 'hello': 'tampered', '//': JsonFile.PROJEN_MARKER }));
+  fs.removeSync(path.join(p.outdir, '.gitignore'));
+
+  // THEN
+  expect(() => p.synth({ check: true })).toThrow(/2 generated file\(s\).*\n.*created\s+\.gitignore\n.*modified\s+my\.json/);
+});
+
+test('check fails if the executable bit changed, but not the read-only bit', () => {
+  // GIVEN
+  const p = new TestProject();
+  const json = new JsonFile(p, 'my.json', { obj: { hello: 'world' } });
+  p.synth();
+
+  // WHEN (like a fresh git checkout)
+  fs.chmodSync(json.absolutePath, '644');
+
+  // THEN
+  expect(() => p.synth({ check: true })).not.toThrow();
+
+  // WHEN
+  fs.chmodSync(json.absolutePath, '755');
+
+  // THEN
+  expect(() => p.synth({ check: true })).toThrow(/1 generated file\(s\).*\n.*modified\s+my\.json/);
+});
+
+test('files without the projen marker are ignored', () => {
+  // GIVEN
+  const p = new TestProject();
+  const file = new TextFile(p, 'unmarked.txt', { lines: ['hello'] });
+  p.synth();
+
+  // WHEN
+  file.addLine('world');
+
+  // THEN
+  expect(() => p.synth({ check: true })).not.toThrow();
+});
+
+test('"projen check" fails when generated files are out of date', () => {
+  // GIVEN
+  const workdir = mkdtemp();
+  fs.writeFileSync(path.join(workdir, '.projenrc.js'), "new (require('projen').Project)({ name: 'foo' }).synth()");
+  execProjenCLI(workdir);
+
+  // THEN
+  expect(() => execProjenCLI(workdir, ['check'])).not.toThrow();
+
+  // WHEN
+  fs.chmodSync(path.join(workdir, '.gitignore'), '600');
+  fs.appendFileSync(path.join(workdir, '.gitignore'), 'tampered\n');
+
+  // THEN
+  expect(() => execProjenCLI(workdir, ['check'])).toThrow();
+  expect(fs.readFileSync(path.join(workdir, '.gitignore'), 'utf-8')).toContain('tampered');
+});
@@ -1,3 +1,4 @@
+import { execSync } from 'child_process';
 import { join } from 'path';
 import { writeFileSync } from 'fs-extra';
 import { LogLevel } from '../logger';
@@ -35,3 +36,19 @@ test('running "projen" for projects with a "default" task will execute it', () =
   execProjenCLI(workdir);
   expect(directorySnapshot(workdir)['bar.txt']).toStrictEqual('foo\n');
 });
+
+test('tasks take precedence over built-in commands with the same name', () => {
+  // GIVEN
+  const workdir = mkdtemp();
+  const project = new Project({ outdir: workdir, name: 'my-project', logging: { level: LogLevel.OFF } });
+  project.addTask('eject', { exec: 'echo "foo" > bar.txt', description: 'My eject task' });
+  project.synth();
+
+  // WHEN
+  execProjenCLI(workdir, ['eject']);
+  const help = execSync(`"${process.execPath}" "${require.resolve('../cli')}" --help`, { cwd: workdir }).toString();
+
+  // THEN
+  expect(directorySnapshot(workdir)['bar.txt']).toStrictEqual('foo\n');
+  expect(help.split('\n').filter(line => /\beject\b/.test(line))).toStrictEqual([expect.stringMatching(/My eject task$/)]);
+});
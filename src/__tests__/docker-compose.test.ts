@@ -16,6 +16,16 @@ describe('docker-compose', () => {
       .toThrow(/at least one service/i);
   });
 
+  test('removing the component removes its file', () => {
+    const project = new TestProject();
+    const dc = new DockerCompose(project);
+
+    project.removeComponent(dc);
+
+    expect(project.tryFindFile('docker-compose.yml')).toBeUndefined();
+    expect(() => project.synth()).not.toThrow();
+  });
+
   test('errors when imageBuild and image not specified in service', () => {
     const project = new TestProject();
     const dc = new DockerCompose(project);
@@ -0,0 +1,197 @@
+import * as path from 'path';
+import * as fs from 'fs-extra';
+import { diagnose } from '../cli/doctor';
+import { mkdtemp } from './util';
+
+const TOOLS: Record<string, string> = {
+  'yarn --version': '1.22.10',
+  'npm --version': '7.0.0',
+  'python --version': 'Python 3.9.1',
+  'poetry --version': 'Poetry version 1.1.6',
+  'mvn --version': 'Apache Maven 3.6.3',
+  'java -version 2>&1': 'openjdk version "11.0.2" 2019-01-15',
+  'git --version': 'git version 2.30.0',
+  'git rev-parse --is-inside-work-tree': 'true',
+  'git remote': 'origin',
+  'git remote get-url origin': 'https://github.com/acme/my-project.git',
+  'npx projen check 2>&1': '🤖 All generated files are up-to-date',
+};
+
+const dirs = new Array<string>();
+
+afterEach(() => {
+  for (const dir of dirs.splice(0)) {
+    fs.removeSync(dir);
+  }
+});
+
+function setup(files: Record<string, any>) {
+  const dir = mkdtemp();
+  dirs.push(dir);
+  for (const [file, content] of Object.entries(files)) {
+    fs.outputFileSync(path.join(dir, file), typeof content === 'string' ? content : JSON.stringify(content));
+  }
+
+  return dir;
+}
+
+function check(dir: string, options: { tools?: Record<string, string | undefined>; nodeVersion?: string } = {}) {
+  const tools: Record<string, string | undefined> = { ...TOOLS, ...options.tools };
+  return diagnose({ dir, exec: command => tools[command], nodeVersion: options.nodeVersion ?? 'v14.17.0' });
+}
+
+const NODE_PROJECT = {
+  '.projenrc.js': '',
+  '.projen/tasks.json': { tasks: { 'upgrade-dependencies': { steps: [{ exec: 'npm install' }] } } },
+  '.projen/deps.json': {},
+  'package.json': { engines: { node: '>= 12.0.0 <= 14.0.0' } },
+};
+
+test('node version is checked against engines', () => {
+  const dir = setup(NODE_PROJECT);
+
+  expect(check(dir, { nodeVersion: 'v12.22.0' })).toContainEqual({
+    check: 'node',
+    status: 'ok',
+    message: 'Node.js v12.22.0 satisfies ">= 12.0.0 <= 14.0.0"',
+  });
+  expect(check(dir, { nodeVersion: 'v16.0.0' })).toContainEqual({
+    check: 'node',
+    status: 'error',
+    message: 'Node.js v16.0.0 does not satisfy ">= 12.0.0 <= 14.0.0" (minNodeVersion/maxNodeVersion)',
+    fix: 'Install a version of Node.js which satisfies ">= 12.0.0 <= 14.0.0" (e.g. "nvm install 12.0.0")',
+  });
+});
+
+test('package manager is taken from the install command of tasks', () => {
+  // GIVEN
+  const dir = setup({ ...NODE_PROJECT, 'yarn.lock': '' });
+
+  // WHEN
+  const result = check(dir, { tools: { 'npm --version': undefined } }).filter(d => d.check === 'package manager');
+
+  // THEN
+  expect(result).toStrictEqual([
+    {
+      check: 'package manager',
+      status: 'error',
+      message: 'npm is not installed',
+      fix: 'Reinstall Node.js (npm is installed with it)',
+    },
+    {
+      check: 'package manager',
+      status: 'warning',
+      message: 'yarn.lock exists but the project uses npm ("packageManager" option)',
+      fix: 'Delete yarn.lock',
+    },
+  ]);
+});
+
+test('python projects with venv', () => {
+  // GIVEN
+  const dir = setup({
+    '.projenrc.py': '',
+    '.projen/tasks.json': { env: { VIRTUAL_ENV: '$(echo $PWD/.env)' } },
+    'requirements.txt': '',
+  });
+
+  // WHEN
+  const result = check(dir, { tools: { 'python --version': undefined } }).filter(d => d.check === 'python');
+
+  // THEN
+  expect(result.map(d => [d.status, d.message])).toStrictEqual([
+    ['error', 'python is not installed'],
+    ['warning', 'the virtual environment .env does not exist'],
+  ]);
+  expect(check(dir).filter(d => d.check === 'package manager')).toStrictEqual([]);
+});
+
+test('python projects with poetry', () => {
+  const dir = setup({
+    '.projen/tasks.json': { env: { VIRTUAL_ENV: '$(poetry env info -p)' } },
+    'pyproject.toml': '',
+  });
+
+  expect(check(dir).filter(d => d.check === 'python').map(d => d.message)).toStrictEqual(['Python 3.9.1', 'Poetry version 1.1.6']);
+  expect(check(dir, { tools: { 'poetry --version': undefined } })).toContainEqual({
+    check: 'python',
+    status: 'error',
+    message: 'poetry is not installed',
+    fix: 'Install poetry (https://python-poetry.org/docs/)',
+  });
+});
+
+test('java projects require maven and a recent enough JDK', () => {
+  // GIVEN
+  const dir = setup({ 'pom.xml': '<project><configuration><source>11</source></configuration></project>' });
+
+  // THEN
+  expect(check(dir).filter(d => d.check === 'java').map(d => d.status)).toStrictEqual(['ok', 'ok']);
+  expect(check(dir, { tools: { 'java -version 2>&1': 'java version "1.8.0_292"', 'mvn --version': undefined } })
+    .filter(d => d.check === 'java')
+    .map(d => [d.status, d.message])).toStrictEqual([
+    ['error', 'Maven is not installed'],
+    ['error', 'JDK 1.8.0_292 cannot compile Java 11 sources (maven-compiler-plugin "source" in pom.xml)'],
+  ]);
+});
+
+test('git remote', () => {
+  const dir = setup({ ...NODE_PROJECT, 'package.json': { repository: { url: 'https://github.com/acme/my-project.git' } } });
+
+  expect(check(dir)).toContainEqual({ check: 'git', status: 'ok', message: 'remote "origin": https://github.com/acme/my-project.git' });
+  expect(check(dir, { tools: { 'git remote': undefined } })).toContainEqual({
+    check: 'git',
+    status: 'warning',
+    message: 'the git repository has no remote (needed for release and upgrade workflows)',
+    fix: 'Run "git remote add origin https://github.com/acme/my-project.git"',
+  });
+  expect(check(dir, { tools: { 'git rev-parse --is-inside-work-tree': undefined } }).find(d => d.check === 'git')?.fix).toStrictEqual('Run "git init"');
+});
+
+test('generated files are checked with "projen check"', () => {
+  // GIVEN
+  const dir = setup(NODE_PROJECT);
+
+  // THEN
+  expect(check(dir).filter(d => d.check === 'manifests')).toStrictEqual([
+    { check: 'manifests', status: 'ok', message: 'generated files are up to date with .projenrc.js' },
+  ]);
+  expect(check(dir, { tools: { 'npx projen check 2>&1': undefined } }).filter(d => d.check === 'manifests')).toStrictEqual([
+    {
+      check: 'manifests',
+      status: 'warning',
+      message: 'generated files are not up to date with .projenrc.js (or it cannot be synthesized)',
+      fix: 'Run "npx projen" to synthesize the project',
+    },
+  ]);
+});
+
+test('projenrc files of all languages are found', () => {
+  // GIVEN
+  const { ['.projenrc.js']: _, ...project } = NODE_PROJECT;
+  const dir = setup({ ...project, 'src/main/java/projenrc.java': '' });
+
+  // THEN
+  expect(check(dir).filter(d => d.check === 'manifests')).toStrictEqual([
+    { check: 'manifests', status: 'ok', message: 'generated files are up to date with src/main/java/projenrc.java' },
+  ]);
+});
+
+test('manifests which do not exist are reported', () => {
+  // GIVEN
+  const dir = setup(NODE_PROJECT);
+  fs.removeSync(path.join(dir, '.projen/deps.json'));
+
+  // WHEN
+  const result = check(dir).filter(d => d.check === 'manifests');
+
+  // THEN
+  expect(result).toStrictEqual([
+    {
+      check: 'manifests',
+      status: 'error',
+      message: '.projen/deps.json does not exist',
+      fix: 'Run "npx projen" to synthesize the project',
+    },
+  ]);
+});
@@ -0,0 +1,210 @@
+import * as path from 'path';
+import * as fs from 'fs-extra';
+import { Project, SampleFile, TextFile } from '..';
+import { unifiedDiff } from '../util/diff';
+import { TestProject } from './util';
+
+let stdout: jest.SpyInstance;
+
+beforeEach(() => {
+  stdout = jest.spyOn(process.stdout, 'write').mockImplementation(() => true);
+});
+
+afterEach(() => {
+  stdout.mockRestore();
+});
+
+test('dry run does not write anything to disk', () => {
+  // GIVEN
+  const p = new TestProject();
+  new TextFile(p, 'hello.txt', { lines: ['hello'] });
+  new SampleFile(p, 'sample.txt', { contents: 'sample' });
+
+  // WHEN
+  p.synth({ dryRun: true });
+
+  // THEN
+  expect(fs.readdirSync(p.outdir).length).toBe(0);
+  const output = printed();
+  expect(output).toContain('created  hello.txt');
+  expect(output).toContain('--- /dev/null\n+++ b/hello.txt\n@@ -0,0 +1 @@\n+hello\n');
+});
+
+test('dry run can be enabled through PROJEN_DRY_RUN', () => {
+  // GIVEN
+  const p = new TestProject();
+  new TextFile(p, 'hello.txt', { lines: ['hello'] });
+
+  // WHEN
+  process.env.PROJEN_DRY_RUN = 'true';
+  try {
+    p.synth();
+  } finally {
+    delete process.env.PROJEN_DRY_RUN;
+  }
+
+  // THEN
+  expect(fs.existsSync(path.join(p.outdir, 'hello.txt'))).toBeFalsy();
+  expect(printed()).toContain('created  hello.txt');
+});
+
+test('modified files are printed as a unified diff', () => {
+  // GIVEN
+  const p = new TestProject();
+  const file = new TextFile(p, 'hello.txt', { lines: ['line1', 'line2', 'line3'] });
+  p.synth();
+
+  // WHEN
+  file.addLine('line4');
+  p.synth({ dryRun: true });
+
+  // THEN
+  expect(fs.readFileSync(file.absolutePath, 'utf-8')).toStrictEqual('line1\nline2\nline3');
+  expect(printed()).toContain([
+    '--- a/hello.txt',
+    '+++ b/hello.txt',
+    '@@ -1,3 +1,4 @@',
+    ' line1',
+    ' line2',
+    '-line3',
+    '\\ No newline at end of file',
+    '+line3',
+    '+line4',
+    '\\ No newline at end of file',
+  ].join('\n'));
+});
+
+test('mode changes are reported', () => {
+  // GIVEN
+  const p = new TestProject();
+  const file = new TextFile(p, 'run.sh', { lines: ['echo hello'], executable: true, readonly: false });
+  p.synth();
+  fs.chmodSync(file.absolutePath, '644');
+
+  // WHEN
+  p.synth({ dryRun: true });
+
+  // THEN
+  expect(printed()).toStrictEqual([
+    'diff --git a/run.sh b/run.sh',
+    'old mode 100644',
+    'new mode 100755',
+    '',
+    'modified run.sh',
+    '',
+  ].join('\n'));
+});
+
+test('unchanged files are not reported', () => {
+  // GIVEN
+  const p = new TestProject();
+  new TextFile(p, 'hello.txt', { lines: ['hello'] });
+  p.synth();
+
+  // WHEN
+  p.synth({ dryRun: true });
+
+  // THEN
+  expect(printed()).toStrictEqual('No changes.\n');
+});
+
+test('generated files that are no longer synthesized are reported as deleted', () => {
+  // GIVEN
+  const p = new TestProject();
+  const orphan = path.join(p.outdir, 'orphan.txt');
+  fs.writeFileSync(orphan, `# ${TextFile.PROJEN_MARKER}\nbye`);
+
+  // WHEN
+  p.synth({ dryRun: true });
+
+  // THEN
+  expect(fs.existsSync(orphan)).toBeTruthy();
+  expect(printed()).toContain('deleted  orphan.txt');
+});
+
+test('subproject changes are included in the parent report', () => {
+  // GIVEN
+  const p = new TestProject();
+  const sub = new Project({ parent: p, name: 'sub', outdir: 'packages/sub' });
+  new TextFile(sub, 'sub.txt', { lines: ['sub'] });
+
+  // WHEN
+  p.synth({ dryRun: true });
+
+  // THEN
+  expect(fs.existsSync(path.join(p.outdir, 'packages'))).toBeFalsy();
+  expect(printed()).toContain('created  packages/sub/sub.txt');
+  expect(p.dryRun).toBeFalsy();
+  expect(sub.dryRun).toBeFalsy();
+});
+
+test('postSynthesize is skipped during dry run', () => {
+  // GIVEN
+  const p = new TestProject();
+
+  // WHEN
+  p.synth({ dryRun: true });
+
+  // THEN
+  expect(fs.existsSync(path.join(p.outdir, '.postsynth'))).toBeFalsy();
+});
+
+describe('unifiedDiff', () => {
+  test('identical texts', () => {
+    expect(unifiedDiff('a\nb\n', 'a\nb\n', { fromFile: 'a', toFile: 'b' })).toStrictEqual('');
+  });
+
+  test('hunks only include changes and their context', () => {
+    const from = ['1', '2', '3', '4', '5', '6', '7', '8', '9', '10'].join('\n');
+    const to = ['1', '2', '3', '4', '5', '6', '7', '8', 'nine', '10'].join('\n');
+    expect(unifiedDiff(from, to, { fromFile: 'a', toFile: 'b', context: 1 })).toStrictEqual([
+      '--- a',
+      '+++ b',
+      '@@ -8,3 +8,3 @@',
+      ' 8',
+      '-9',
+      '+nine',
+      ' 10',
+      '\\ No newline at end of file',
+      '',
+    ].join('\n'));
+  });
+
+  test('missing newlines at the end of the file', () => {
+    expect(unifiedDiff('a\nb', 'a\nb\n', { fromFile: 'a', toFile: 'b' })).toStrictEqual([
+      '--- a',
+      '+++ b',
+      '@@ -1,2 +1,2 @@',
+      ' a',
+      '-b',
+      '\\ No newline at end of file',
+      '+b',
+      '',
+    ].join('\n'));
+  });
+
+  test('large rewrites', () => {
+    const from = Array.from({ length: 50000 }, (_, i) => `line ${i}`).join('\n');
+    const to = Array.from({ length: 50000 }, (_, i) => i % 1000 === 0 ? `line ${i}` : `changed ${i}`).join('\n');
+    const lines = unifiedDiff(from, to, { fromFile: 'a', toFile: 'b', context: 50000 })
+      .split('\n')
+      .slice(3, -1)
+      .filter(l => !l.startsWith('\\'));
+
+    // the diff is not minimal, but applies
+    expect(lines.filter(l => !l.startsWith('+')).map(l => l.slice(1)).join('\n')).toStrictEqual(from);
+    expect(lines.filter(l => !l.startsWith('-')).map(l => l.slice(1)).join('\n')).toStrictEqual(to);
+  });
+
+  test('distant changes produce separate hunks', () => {
+    const from = ['1', '2', '3', '4', '5', '6', '7', '8'].join('\n');
+    const to = ['one', '2', '3', '4', '5', '6', '7', 'eight'].join('\n');
+    const diff = unifiedDiff(from, to, { fromFile: 'a', toFile: 'b', context: 1 });
+    expect(diff).toContain('@@ -1,2 +1,2 @@\n-1\n+one\n 2\n');
+    expect(diff).toContain('@@ -7,2 +7,2 @@\n 7\n-8\n\\ No newline at end of file\n+eight\n');
+  });
+});
+
+function printed() {
+  return stdout.mock.calls.map(args => args[0]).join('');
+}
@@ -0,0 +1,104 @@
+import * as path from 'path';
+import * as fs from 'fs-extra';
+import { NodeProject, Project, TextFile } from '..';
+import { PROJEN_MARKER } from '../common';
+import { LogLevel } from '../logger';
+import { mkdtemp, synthSnapshot } from './util';
+
+beforeEach(() => {
+  process.env.PROJEN_EJECTING = 'true';
+});
+
+afterEach(() => {
+  delete process.env.PROJEN_EJECTING;
+});
+
+test('generated files are written without markers and can be edited', () => {
+  // GIVEN
+  const project = newProject();
+  new TextFile(project, 'hello.txt', { lines: [`# ${TextFile.PROJEN_MARKER}`, 'hello'] });
+
+  // WHEN
+  process.env.PROJEN_DISABLE_POST = 'true';
+  try {
+    project.synth();
+  } finally {
+    delete process.env.PROJEN_DISABLE_POST;
+  }
+
+  // THEN
+  const file = path.join(project.outdir, 'hello.txt');
+  expect(fs.readFileSync(file, 'utf-8')).toBe('hello');
+  expect(fs.statSync(file).mode.toString(8)).toMatch(/6\d\d$/);
+  expect(fs.readFileSync(path.join(project.outdir, '.gitignore'), 'utf-8')).not.toContain(PROJEN_MARKER);
+  expect(fs.readJsonSync(path.join(project.outdir, 'package.json'))['//']).toBeUndefined();
+});
+
+test('projen files are removed', () => {
+  // GIVEN
+  const project = newProject();
+  fs.writeFileSync(path.join(project.outdir, '.projenrc.js'), '// projenrc');
+
+  // WHEN
+  const output = synthSnapshot(project);
+
+  // THEN
+  expect(output['.projenrc.js']).toBeUndefined();
+  expect(Object.keys(output).filter(f => f.startsWith('.projen/'))).toEqual([]);
+  expect(output['package.json'].devDependencies.projen).toBeUndefined();
+});
+
+test('projenrc is not ignored', () => {
+  // GIVEN
+  const project = newProject();
+
+  // WHEN
+  const output = synthSnapshot(project);
+
+  // THEN
+  expect(output['.gitignore']).not.toContain('.projenrc.js');
+  expect(output['.npmignore']).not.toContain('.projenrc.js');
+  expect(output['.npmignore']).not.toContain('/.projen');
+});
+
+test('projenrc is removed from projects without a projenrc component', () => {
+  // GIVEN
+  const project = new Project({
+    outdir: mkdtemp(),
+    name: 'test',
+    logging: { level: LogLevel.OFF },
+  });
+  fs.writeFileSync(path.join(project.outdir, '.projenrc.js'), '// projenrc');
+  const hello = project.addTask('hello', { exec: 'echo hello' });
+
+  // WHEN
+  project.synth();
+
+  // THEN
+  expect(fs.existsSync(path.join(project.outdir, '.projenrc.js'))).toBe(false);
+  expect(project.runTaskCommand(hello)).toBe(hello.toShellCommand());
+});
+
+test('tasks are rendered as shell commands', () => {
+  // GIVEN
+  const project = newProject();
+  project.addTask('hello', { exec: 'echo hello' });
+
+  // WHEN
+  const pkg = synthSnapshot(project)['package.json'];
+
+  // THEN
+  expect(pkg.scripts.hello).toBe(project.tasks.tryFind('hello')!.toShellCommand());
+  expect(pkg.scripts.default).toBeUndefined();
+  expect(pkg.scripts.projen).toBeUndefined();
+  expect(pkg.scripts.build).not.toContain('projen');
+});
+
+function newProject() {
+  return new NodeProject({
+    outdir: mkdtemp(),
+    name: 'test',
+    logging: { level: LogLevel.OFF },
+    defaultReleaseBranch: 'main',
+  });
+}
@@ -60,3 +60,41 @@ describe('prettier', () => {
     expect(eslint.rules).toHaveProperty('prettier/prettier', ['error']);
   });
 });
+
+test('removing the component removes its file, task, ignore patterns and dependencies', () => {
+  // GIVEN
+  const project = new NodeProject({
+    outdir: mkdtemp(),
+    name: 'test',
+    logging: { level: LogLevel.OFF },
+    defaultReleaseBranch: 'master',
+  });
+  const eslint = new Eslint(project, { dirs: ['src'] });
+
+  // WHEN
+  project.removeComponent(eslint);
+
+  // THEN
+  const output = synthSnapshot(project);
+  expect(output['.eslintrc.json']).toBeUndefined();
+  expect(output['.projen/tasks.json'].tasks.eslint).toBeUndefined();
+  expect(output['.projen/tasks.json'].tasks.test.steps).not.toContainEqual({ spawn: 'eslint' });
+  expect(output['.npmignore']).not.toContain('/.eslintrc.json');
+  expect(output['.gitignore']).not.toContain('/.eslintrc.json');
+  expect(output['package.json'].devDependencies).not.toHaveProperty('eslint');
+  expect(output['package.json'].devDependencies).not.toHaveProperty('eslint-plugin-import');
+  expect(project.tryFindComponent(Eslint)).toBeUndefined();
+});
+
+test('tryFindComponent() returns the eslint component of a project', () => {
+  const project = new NodeProject({
+    outdir: mkdtemp(),
+    name: 'test',
+    logging: { level: LogLevel.OFF },
+    defaultReleaseBranch: 'master',
+  });
+  expect(project.tryFindComponent(Eslint)).toBeUndefined();
+
+  const eslint = new Eslint(project, { dirs: ['src'] });
+  expect(project.tryFindComponent(Eslint)).toBe(eslint);
+});
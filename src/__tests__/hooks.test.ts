@@ -0,0 +1,149 @@
+import * as path from 'path';
+import * as fs from 'fs-extra';
+import { Component, ISynthesisListener, LogLevel, Project, SynthesisEvent, TextFile } from '..';
+import { TestProject } from './util';
+
+class Recorder extends Component {
+  constructor(project: Project, private readonly id: string, private readonly log: string[]) {
+    super(project);
+  }
+
+  public preSynthesize() { this.log.push(`${this.id}:pre`); }
+  public synthesize() { this.log.push(`${this.id}:synth`); }
+  public postSynthesize() { this.log.push(`${this.id}:post`); }
+}
+
+describe('component order', () => {
+  test('components are called in the order they were added', () => {
+    const log = new Array<string>();
+    const p = new TestProject();
+    new Recorder(p, 'a', log);
+    new Recorder(p, 'b', log);
+
+    p.synth();
+
+    expect(log).toStrictEqual(['a:pre', 'b:pre', 'a:synth', 'b:synth', 'a:post', 'b:post']);
+  });
+
+  test('synthesizeAfter() and synthesizeBefore()', () => {
+    const log = new Array<string>();
+    const p = new TestProject();
+    const a = new Recorder(p, 'a', log);
+    const b = new Recorder(p, 'b', log);
+    const c = new Recorder(p, 'c', log);
+
+    // WHEN
+    a.synthesizeAfter(c);
+    b.synthesizeBefore(c);
+
+    // THEN
+    p.synth();
+    expect(log).toStrictEqual([
+      'b:pre', 'c:pre', 'a:pre',
+      'b:synth', 'c:synth', 'a:synth',
+      'b:post', 'c:post', 'a:post',
+    ]);
+  });
+
+  test('components added during preSynthesize() are pre-synthesized as well', () => {
+    const log = new Array<string>();
+    const p = new TestProject();
+
+    class Parent extends Recorder {
+      public preSynthesize() {
+        super.preSynthesize();
+        new Recorder(p, 'child', log);
+      }
+    }
+    new Parent(p, 'parent', log);
+
+    p.synth();
+
+    expect(log).toStrictEqual(['parent:pre', 'child:pre', 'parent:synth', 'child:synth', 'parent:post', 'child:post']);
+  });
+
+  test('dependencies on components of other projects are ignored', () => {
+    const log = new Array<string>();
+    const p = new TestProject();
+    const sub = new Project({ name: 'sub', parent: p, outdir: 'sub', logging: { level: LogLevel.OFF } });
+    const a = new Recorder(p, 'a', log);
+    new Recorder(p, 'b', log);
+    a.synthesizeAfter(new Recorder(sub, 'sub', log));
+
+    expect(() => p.synth()).not.toThrow();
+    expect(log.filter(l => l.endsWith(':post'))).toStrictEqual(['sub:post', 'a:post', 'b:post']);
+  });
+
+  test('cycles are reported', () => {
+    const p = new TestProject();
+    const a = new Recorder(p, 'a', []);
+    const b = new Recorder(p, 'b', []);
+    a.synthesizeAfter(b);
+    b.synthesizeAfter(a);
+
+    expect(() => p.synth()).toThrow(/Cannot determine the synthesis order of components because they form a cycle: Recorder » Recorder » Recorder/);
+  });
+});
+
+describe('hooks', () => {
+  test('events are emitted in order', () => {
+    const events = new Array<string>();
+    const listener: ISynthesisListener = {
+      handle: (e: SynthesisEvent) => events.push(`${e.project.name}:${e.type}${e.file ? `:${e.file.path}` : ''}`),
+    };
+
+    const p = new TestProject();
+    const sub = new Project({ name: 'sub', parent: p, outdir: 'sub', logging: { level: LogLevel.OFF } });
+    new TextFile(p, 'root.txt', { lines: ['hello'] });
+    new TextFile(sub, 'sub.txt', { lines: ['hello'] });
+
+    for (const project of [p, sub]) {
+      project.hooks.onBeforeCleanup(listener);
+      project.hooks.onAfterSubprojects(listener);
+      project.hooks.onFileWritten(listener);
+    }
+
+    p.synth();
+
+    expect(events.filter(e => !e.includes('file-written:.'))).toStrictEqual([
+      'my-project:before-cleanup',
+      'sub:before-cleanup',
+      'sub:after-subprojects',
+      'sub:file-written:sub.txt',
+      'my-project:after-subprojects',
+      'my-project:file-written:root.txt',
+    ]);
+  });
+
+  test('files exist when "file-written" is emitted', () => {
+    const p = new TestProject();
+    const file = new TextFile(p, 'hello.txt', { lines: ['hello'] });
+    const contents = new Array<string>();
+    p.hooks.onFileWritten({
+      handle: e => {
+        if (e.file === file) {
+          contents.push(fs.readFileSync(path.join(p.outdir, e.file.path), 'utf-8'));
+        }
+      },
+    });
+
+    p.synth();
+
+    expect(contents).toStrictEqual(['hello']);
+  });
+
+  test('"file-written" is not emitted in dry-run mode', () => {
+    const p = new TestProject();
+    const written = new Array<string>();
+    p.hooks.onFileWritten({ handle: e => written.push(e.file!.path) });
+    jest.spyOn(process.stdout, 'write').mockImplementation(() => true);
+
+    try {
+      p.synth({ dryRun: true });
+    } finally {
+      jest.restoreAllMocks();
+    }
+
+    expect(written.length).toStrictEqual(0);
+  });
+});
@@ -0,0 +1,94 @@
+import { basename } from 'path';
+import * as inquirer from 'inquirer';
+import { interactiveOptions, promptOptions, toQuestion } from '../cli/interactive';
+import * as inventory from '../inventory';
+
+const nodeProject = inventory.discover().find(t => t.pjid === 'node')!;
+const pythonProject = inventory.discover().find(t => t.pjid === 'python')!;
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+test('required and featured options are asked for', () => {
+  const options = interactiveOptions(pythonProject);
+  const names = options.map(o => o.name);
+
+  // required options come first
+  expect(names.slice(0, 5).sort()).toStrictEqual(['authorEmail', 'authorName', 'moduleName', 'name', 'version']);
+  expect(names).toContain('projectType');
+  expect(names).toContain('description');
+
+  for (const option of options) {
+    expect(option.featured || !option.optional).toBeTruthy();
+    expect(option.deprecated).toBeFalsy();
+  }
+
+  // non-primitive options cannot be asked for
+  expect(names).not.toContain('deps');
+});
+
+test('questions are typed', () => {
+  const option = (name: string) => pythonProject.options.find(o => o.name === name)!;
+
+  expect(toQuestion(option('pip'))).toMatchObject({ type: 'confirm', name: 'pip', default: true });
+  expect(toQuestion(option('version'), '1.0.0')).toMatchObject({ type: 'input', name: 'version', default: '1.0.0' });
+  expect(toQuestion(option('projectType'))).toMatchObject({
+    type: 'list',
+    name: 'projectType',
+    choices: [{ name: '(default)', value: '' }, 'UNKNOWN', 'LIB', 'APP'],
+    default: 'UNKNOWN',
+  });
+});
+
+test('enum values with several dashes are matched to members', () => {
+  const option: inventory.ProjectOption = {
+    name: 'versioningStrategy',
+    switch: 'versioning-strategy',
+    type: 'VersioningStrategy',
+    kind: 'enum',
+    fqn: 'projen.github.VersioningStrategy',
+    path: ['versioningStrategy'],
+    parent: 'MyOptions',
+  };
+
+  expect(toQuestion(option, 'increase-if-necessary').default).toStrictEqual('INCREASE_IF_NECESSARY');
+});
+
+test('the message includes the switch and the docs', () => {
+  const option = nodeProject.options.find(o => o.name === 'defaultReleaseBranch')!;
+  expect(toQuestion(option).message).toStrictEqual('default-release-branch: The name of the main release branch');
+});
+
+test('input is validated against the type of the option', () => {
+  const numberOption: inventory.ProjectOption = { name: 'port', switch: 'port', type: 'number', path: ['port'], parent: 'MyOptions', optional: false };
+  const question = toQuestion(numberOption);
+
+  expect(question.filter!('1234')).toStrictEqual(1234);
+  expect(question.validate!(question.filter!('1234'))).toStrictEqual(true);
+  expect(question.validate!(question.filter!('hello'))).toStrictEqual('port must be a number');
+  expect(question.validate!(question.filter!(''))).toStrictEqual('port is required');
+});
+
+test('macros are suggested as defaults', () => {
+  const option: inventory.ProjectOption = { name: 'name', switch: 'name', type: 'string', path: ['name'], parent: 'MyOptions', default: '$BASEDIR' };
+  expect(toQuestion(option).default).toStrictEqual(basename(process.cwd()));
+});
+
+test('answers are merged into the props', async () => {
+  // GIVEN
+  const prompt = jest.spyOn(inquirer, 'prompt').mockResolvedValue({
+    name: 'my-lib',
+    projectType: 'LIB',
+    description: '',
+  } as any);
+
+  // WHEN
+  const props = await promptOptions(pythonProject, { name: 'foo', description: 'bar', pip: false }, o => o.name === 'pip');
+
+  // THEN
+  const questions = prompt.mock.calls[0][0] as inquirer.DistinctQuestion[];
+  expect(questions.find(q => q.name === 'name')?.default).toStrictEqual('foo');
+  expect(questions.find(q => q.name === 'pip')).toBeUndefined(); // skipped
+  expect(props).toStrictEqual({ name: 'my-lib', projectType: 'LIB', pip: false });
+});
@@ -61,3 +61,98 @@ function throwIfNotRenderable(option: inventory.ProjectOption) {
     (option.type && option.default.startsWith(option.type)) ||
     JSON.parse(option.default);
 };
+
+describe('json schema', () => {
+  const node = inventory.renderProjectSchema(result.find(t => t.pjid === 'node')!);
+
+  test('includes all options', () => {
+    expect(node.title).toBe('NodeProject');
+    expect(node.additionalProperties).toBe(false);
+    expect(node.properties.type).toStrictEqual({ description: 'The jsii FQN of the project type', const: 'projen.NodeProject' });
+    expect(Object.keys(node.properties).length).toBe(result.find(t => t.pjid === 'node')!.options.length + 2);
+  });
+
+  test('options are rendered with their type, default and docs', () => {
+    expect(node.properties.name).toStrictEqual({ description: 'This is the name of your project.', type: 'string' });
+    expect(node.properties.jest).toMatchObject({ type: 'boolean', default: true });
+    expect(node.properties.projectType).toMatchObject({ enum: ['UNKNOWN', 'LIB', 'APP'] });
+    expect(node.properties.jestOptions).toMatchObject({ type: 'object' });
+    expect(node.properties.projenrcJsOptions.default).toBeUndefined();
+  });
+
+  test('struct options are rendered with their properties', () => {
+    const typescript = inventory.renderProjectSchema(result.find(t => t.pjid === 'typescript')!);
+    const tsconfig = typescript.properties.tsconfig;
+    expect(tsconfig).toMatchObject({ type: 'object', required: ['compilerOptions'], additionalProperties: false });
+    expect(tsconfig.properties.compilerOptions.properties.strict).toMatchObject({ type: 'boolean' });
+    expect(tsconfig.properties.include).toMatchObject({ type: 'array', items: { type: 'string' } });
+    expect(typescript.properties.jestOptions.properties.jestConfig.properties.bail).toMatchObject({ anyOf: [{ type: 'number' }, { type: 'boolean' }] });
+  });
+
+  test('all project types can be rendered', () => {
+    for (const type of result) {
+      expect(inventory.renderProjectSchema(type).title).toStrictEqual(type.typename);
+    }
+  });
+
+  test('required options', () => {
+    expect(node.required).toContain('name');
+    expect(node.required).toContain('defaultReleaseBranch');
+    expect(node.required).not.toContain('jest');
+  });
+});
+
+describe('option values', () => {
+  const typescript = inventory.discover().find(t => t.pjid === 'typescript')!;
+  const option = (name: string) => typescript.options.find(o => o.name === name)!;
+
+  test('collection options include the type of their elements', () => {
+    expect(option('releaseBranches').collection).toStrictEqual({ kind: 'array', elementtype: { primitive: 'string' } });
+  });
+
+  test('valid values', () => {
+    expect(inventory.validateOptionValue(option('releaseBranches'), ['main', 'v1'])).toBeUndefined();
+    expect(inventory.validateOptionValue(option('tsconfig'), { compilerOptions: { strict: false }, include: ['src/**'] })).toBeUndefined();
+    expect(inventory.validateOptionValue(option('jestOptions'), { jestConfig: { bail: 1 } })).toBeUndefined();
+    expect(inventory.validateOptionValue(option('projectType'), 'lib')).toBeUndefined();
+  });
+
+  test('invalid values', () => {
+    expect(inventory.validateOptionValue(option('releaseBranches'), 'main')).toStrictEqual('releaseBranches must be an array');
+    expect(inventory.validateOptionValue(option('releaseBranches'), ['main', 1])).toStrictEqual('releaseBranches[1] must be a string');
+    expect(inventory.validateValue([1, NaN], { collection: { kind: 'array', elementtype: { primitive: 'number' } } }, 'ports')).toStrictEqual('ports[1] must be a number');
+    expect(inventory.validateOptionValue(option('tsconfig'), {})).toStrictEqual('tsconfig.compilerOptions is required');
+    expect(inventory.validateOptionValue(option('tsconfig'), { compilerOptions: { strict: 'yes' } })).toStrictEqual('tsconfig.compilerOptions.strict must be a boolean');
+    expect(inventory.validateOptionValue(option('jestOptions'), { foo: 1 })).toStrictEqual('jestOptions.foo is not a property of JestOptions');
+    expect(inventory.validateOptionValue(option('projectType'), 'service')).toStrictEqual('projectType must be one of: UNKNOWN, LIB, APP');
+    expect(inventory.validateOptionValue(option('parent'), {})).toStrictEqual('parent is a Project which cannot be specified as a value');
+  });
+});
+
+describe('components', () => {
+  const components = inventory.discoverComponents();
+  const component = (typename: string) => components.find(c => c.typename === typename)!;
+
+  test('constructor parameters are discovered', () => {
+    expect(component('Makefile')).toMatchObject({
+      fqn: 'projen.Makefile',
+      moduleName: 'projen',
+      scope: 'projen.Project',
+      parameters: [
+        { name: 'filePath', type: 'string' },
+        { name: 'options', type: 'projen.MakefileOptions', optional: true },
+      ],
+    });
+    expect(component('github.Mergify').scope).toStrictEqual('projen.github.GitHub');
+  });
+
+  test('the component base class is not a component', () => {
+    expect(components.map(c => c.fqn)).not.toContain('projen.Component');
+  });
+
+  test('component scopes are resolved through project properties', () => {
+    expect(inventory.resolveComponentScope('projen.TypeScriptProject', 'projen.NodeProject')).toStrictEqual({});
+    expect(inventory.resolveComponentScope('projen.TypeScriptProject', 'projen.github.GitHub')).toStrictEqual({ property: 'github', optional: true });
+    expect(inventory.resolveComponentScope('projen.TypeScriptProject', 'projen.python.PythonProject')).toBeUndefined();
+  });
+});
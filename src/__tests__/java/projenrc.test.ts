@@ -1,6 +1,7 @@
 import { Pom } from '../../java';
 import { Projenrc } from '../../java/projenrc';
 import { renderProjenNewOptions } from '../../javascript/render-options';
+import { NewProjectOptionHints } from '../../option-hints';
 import { synthSnapshot, TestProject } from '../util';
 
 test('projenrc.java support', () => {
@@ -73,4 +74,48 @@ test('generate projenrc in java', () => {
 
   // THEN
   expect(synthSnapshot(project)['src/test/java/projenrc.java']).toMatchSnapshot();
-});
\ No newline at end of file
+});
+
+test('featured options are rendered as comments', () => {
+  // GIVEN
+  const project = new TestProject(renderProjenNewOptions('projen.java.JavaProject', {
+    groupId: 'org.acme',
+  }, NewProjectOptionHints.FEATURED));
+  const pom = new Pom(project, {
+    groupId: 'my.group.id',
+    artifactId: 'hello-world',
+    version: '1.2.3',
+  });
+
+  // WHEN
+  new Projenrc(project, pom);
+
+  // THEN
+  const projenrc = synthSnapshot(project)['src/test/java/projenrc.java'];
+  expect(projenrc).toContain('            .groupId("org.acme")\n');
+  expect(projenrc).toMatch(/^            \/\/ \.version\("0\.1\.0"\) +\/\/ This is the last piece of the naming puzzle/m);
+  expect(projenrc).toMatchSnapshot();
+});
+
+test('lists and maps are rendered as java collections', () => {
+  // GIVEN
+  const project = new TestProject(renderProjenNewOptions('projen.java.JavaProject', {
+    deps: ['junit/junit@^4'],
+    logging: { usePrefix: true },
+  }, NewProjectOptionHints.ALL));
+  const pom = new Pom(project, {
+    groupId: 'my.group.id',
+    artifactId: 'hello-world',
+    version: '1.2.3',
+  });
+
+  // WHEN
+  new Projenrc(project, pom);
+
+  // THEN
+  const projenrc = synthSnapshot(project)['src/test/java/projenrc.java'];
+  expect(projenrc).toContain('            .deps(java.util.List.of("junit/junit@^4"))\n');
+  expect(projenrc).toContain('            .logging(java.util.Map.of("usePrefix", true))\n');
+  expect(projenrc).toMatch(/^            \/\/ \.testDeps\(java\.util\.List\.of\(\)\) +\/\/ /m);
+  expect(projenrc).not.toContain('$');
+});
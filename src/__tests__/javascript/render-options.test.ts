@@ -0,0 +1,25 @@
+import { ProjectType } from '../../inventory';
+import { renderProjectOptions } from '../../javascript/render-options';
+
+test('every dash of an enum value is replaced', () => {
+  const type: ProjectType = {
+    moduleName: 'projen',
+    pjid: 'test',
+    fqn: 'projen.TestProject',
+    typename: 'TestProject',
+    docsurl: '',
+    options: [{
+      path: ['versioningStrategy'],
+      name: 'versioningStrategy',
+      fqn: 'projen.github.VersioningStrategy',
+      switch: 'versioning-strategy',
+      type: 'VersioningStrategy',
+      kind: 'enum',
+      parent: 'TestProjectOptions',
+    }],
+  };
+
+  const rendered = renderProjectOptions({ type, args: { versioningStrategy: 'increase-if-necessary' } });
+
+  expect(rendered.renderedOptions).toContain('versioningStrategy: github.VersioningStrategy.INCREASE_IF_NECESSARY,');
+});
@@ -181,3 +181,34 @@ test('addTestMatch() can be used to add patterns', () => {
     'bar/baz/**',
   ]);
 });
+
+test('removing the component removes its configuration, tasks, ignore patterns and dependencies', () => {
+  // GIVEN
+  const project = new NodeProject({
+    outdir: mkdtemp(),
+    defaultReleaseBranch: 'master',
+    name: 'test',
+    logging: {
+      level: LogLevel.OFF,
+    },
+  });
+  const jest = project.tryFindComponent(Jest)!;
+  expect(jest).toBe(project.jest);
+
+  // WHEN
+  project.removeComponent(jest);
+
+  // THEN
+  const files = synthSnapshot(project);
+  const tasks = files['.projen/tasks.json'].tasks;
+  expect(files['package.json'].jest).toBeUndefined();
+  expect(files['package.json'].devDependencies).not.toHaveProperty('jest');
+  expect(files['package.json'].devDependencies).not.toHaveProperty('jest-junit');
+  expect(tasks['test:watch']).toBeUndefined();
+  expect(tasks['test:update']).toBeUndefined();
+  expect(tasks.test.steps ?? []).not.toContainEqual(expect.objectContaining({ exec: expect.stringMatching(/^jest /) }));
+  expect(files['.gitignore']).not.toContain('/coverage');
+  expect(files['.gitignore']).not.toContain('/test-reports/');
+  expect(files['.npmignore']).not.toContain('/coverage');
+  expect(project.tryFindComponent(Jest)).toBeUndefined();
+});
@@ -0,0 +1,116 @@
+import { migrateProjenrc, renameOption } from '../cli/migrations';
+import { findNewExpressions } from '../cli/projenrc-source';
+
+test('project options are parsed', () => {
+  // GIVEN
+  const source = [
+    'const { JsiiProject, TextFile } = require(\'projen\');',
+    '// new Foo({ a: 1 })',
+    'const project = new JsiiProject({',
+    '  name: \'my-lib\', // a comment with a } brace',
+    '  \'description\': "hello, world",',
+    '  keywords: [\'a\', \'b\'],',
+    '  python,',
+    '  ...common,',
+    '  jestOptions: { jestConfig: { testMatch: [`**/${dir}/*.test.ts`] } },',
+    '  gitignore: x.filter(f => /^\\.[a-z]+/.test(f)),',
+    '});',
+    'new TextFile(project, \'hello.txt\', { lines: [\'hello\'] });',
+    'project.synth();',
+  ].join('\n');
+
+  // WHEN
+  const exprs = findNewExpressions(source);
+
+  // THEN
+  expect(exprs.map(e => e.className)).toStrictEqual(['JsiiProject', 'TextFile']);
+
+  const options = exprs[0].args[0].object!;
+  expect(options.properties.map(p => [p.name, p.value?.text])).toStrictEqual([
+    ['name', '\'my-lib\''],
+    ['description', '"hello, world"'],
+    ['keywords', '[\'a\', \'b\']'],
+    ['python', undefined],
+    ['jestOptions', '{ jestConfig: { testMatch: [`**/${dir}/*.test.ts`] } }'],
+    ['gitignore', 'x.filter(f => /^\\.[a-z]+/.test(f))'],
+  ]);
+  expect(options.properties[4].value?.object?.properties.map(p => p.name)).toStrictEqual(['jestConfig']);
+
+  expect(exprs[1].args.map(a => a.text)).toStrictEqual(['project', '\'hello.txt\'', '{ lines: [\'hello\'] }']);
+});
+
+test('renamed options are migrated', () => {
+  // GIVEN
+  const source = [
+    'const { JsiiProject } = require(\'projen\');',
+    'const project = new JsiiProject({',
+    '  name: \'my-lib\',',
+    '  python: {',
+    '    distName: \'my-lib\',',
+    '    module: \'my_lib\',',
+    '  },',
+    '  dotnet,',
+    '  npmRegistry: \'npm.pkg.github.com\',',
+    '});',
+    'project.synth();',
+  ].join('\n');
+
+  // WHEN
+  const result = migrateProjenrc(source);
+
+  // THEN
+  expect(result.source).toStrictEqual([
+    'const { JsiiProject } = require(\'projen\');',
+    'const project = new JsiiProject({',
+    '  name: \'my-lib\',',
+    '  publishToPypi: {',
+    '    distName: \'my-lib\',',
+    '    module: \'my_lib\',',
+    '  },',
+    '  publishToNuget: dotnet,',
+    '  npmRegistryUrl: \'https://npm.pkg.github.com\',',
+    '});',
+    'project.synth();',
+  ].join('\n'));
+  expect(result.changes).toStrictEqual([
+    'line 4: renamed "python" to "publishToPypi"',
+    'line 8: renamed "dotnet" to "publishToNuget"',
+    'line 9: renamed "npmRegistry" to "npmRegistryUrl"',
+  ]);
+  expect(result.warnings).toStrictEqual([]);
+
+  // migrations are idempotent
+  expect(migrateProjenrc(result.source).changes).toStrictEqual([]);
+});
+
+test('options of other project types are not migrated', () => {
+  const source = 'const project = new python.PythonProject({ python: true });\n';
+  expect(migrateProjenrc(source).source).toStrictEqual(source);
+});
+
+test('conflicting options are reported', () => {
+  // WHEN
+  const result = migrateProjenrc([
+    'const project = new JsiiProject({',
+    '  python: { distName: \'a\', module: \'a\' },',
+    '  publishToPypi: { distName: \'b\', module: \'b\' },',
+    '});',
+  ].join('\n'));
+
+  // THEN
+  expect(result.changes).toStrictEqual([]);
+  expect(result.warnings).toStrictEqual(['line 1: both "python" and "publishToPypi" are specified. Remove "python"']);
+});
+
+test('options are migrated if the project type has the new option', () => {
+  // GIVEN
+  const migration = renameOption('JsiiProjectOptions', 'pypi', 'publishToPypi');
+  const source = 'const project = new JsiiProject({ pypi: {} });';
+
+  // WHEN
+  const result = migrateProjenrc(source, { migrations: [migration] });
+
+  // THEN
+  expect(result.source).toStrictEqual('const project = new JsiiProject({ publishToPypi: {} });');
+  expect(result.changes).toStrictEqual(['line 1: renamed "pypi" to "publishToPypi"']);
+});
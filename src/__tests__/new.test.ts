@@ -2,7 +2,7 @@
 // and compare against a golden snapshot.
 import { execSync } from 'child_process';
 import { join } from 'path';
-import { mkdirSync, removeSync } from 'fs-extra';
+import { existsSync, mkdirSync, removeSync, writeFileSync } from 'fs-extra';
 import * as inventory from '../inventory';
 import { directorySnapshot, execProjenCLI, mkdtemp, sanitizeOutput, synthSnapshot, synthSnapshotWithPost, TestProject } from './util';
 
@@ -150,6 +150,114 @@ test('creating java project with enum-typed CLI arg', () => {
   }
 });
 
+test('creating typescript project with list and struct CLI args', () => {
+  const outdir = mkdtemp();
+  try {
+    const projectdir = createProjectDir(outdir);
+
+    execProjenCLI(projectdir, [
+      'new', 'typescript', '--no-synth',
+      '--deps', 'axios', '--deps', 'yaml',
+      '--release-branches', jsonArg(['main', 'v1']),
+      '--tsconfig', jsonArg({ compilerOptions: { strict: false } }),
+    ]);
+
+    const projenrc = directorySnapshot(projectdir)['.projenrc.js'];
+    expect(projenrc).toContain('  deps: [\'axios\', \'yaml\'],\n');
+    expect(projenrc).toContain('  releaseBranches: [\'main\', \'v1\'],\n');
+    expect(projenrc).toContain('  tsconfig: { compilerOptions: { strict: false } },\n');
+  } finally {
+    removeSync(outdir);
+  }
+});
+
+test('struct CLI args are validated', () => {
+  const outdir = mkdtemp();
+  try {
+    const projectdir = createProjectDir(outdir);
+
+    expect(() => execProjenCLI(projectdir, ['new', 'typescript', '--no-synth', '--tsconfig', jsonArg({ compilerOptions: { strict: 'no' } })])).toThrow();
+    expect(directorySnapshot(projectdir, { excludeGlobs: ['.git/**'] })['.projenrc.js']).toBeUndefined();
+  } finally {
+    removeSync(outdir);
+  }
+});
+
+test('projen new --from local template', () => {
+  const outdir = mkdtemp();
+  try {
+    const projectdir = createProjectDir(outdir);
+    const templatedir = createTemplateDir(outdir);
+
+    execProjenCLI(projectdir, ['new', '--from', templatedir, '--no-post']);
+
+    const actual = directorySnapshot(projectdir, { excludeGlobs: ['.git/**', 'node_modules/**'] });
+    expect(actual['README.md']).toStrictEqual('# my-project\n\nMaintained by My User Name <my@user.email.com>\n');
+    expect(actual['.projenrc.js']).toContain('name: \'my-project\'');
+    expect(actual['src/my_project/__init__.py']).toBeDefined();
+    expect(actual['.projen/tasks.json']).toBeDefined(); // synthesized
+  } finally {
+    removeSync(outdir);
+  }
+});
+
+test('projen new --from git template pinned to a ref', () => {
+  const outdir = mkdtemp();
+  try {
+    const projectdir = createProjectDir(outdir);
+    const templatedir = createTemplateDir(outdir);
+
+    const git = (command: string) => execSync(`git -c user.name=template -c user.email=template@acme.com ${command}`, { cwd: templatedir });
+    git('init');
+    git('add .');
+    git('commit -m v1');
+    git('tag v1');
+    writeFileSync(join(templatedir, 'README.md'), '# v2\n');
+    git('commit -am v2');
+
+    execProjenCLI(projectdir, ['new', '--from', `git+file://${templatedir}#v1`, '--no-synth']);
+
+    const actual = directorySnapshot(projectdir, { excludeGlobs: ['.git/**'] });
+    expect(actual['README.md']).toStrictEqual('# my-project\n\nMaintained by My User Name <my@user.email.com>\n');
+    expect(actual['.projen/tasks.json']).toBeUndefined(); // --no-synth
+  } finally {
+    removeSync(outdir);
+  }
+});
+
+test('projen new --from git template does not pass the ref to a shell', () => {
+  const outdir = mkdtemp();
+  try {
+    const projectdir = createProjectDir(outdir);
+    const templatedir = createTemplateDir(outdir);
+
+    const git = (command: string) => execSync(`git -c user.name=template -c user.email=template@acme.com ${command}`, { cwd: templatedir });
+    git('init');
+    git('add .');
+    git('commit -m v1');
+
+    const marker = join(outdir, 'injected');
+    expect(() => execProjenCLI(projectdir, ['new', '--from', `git+file://${templatedir}#v1;touch ${marker}`, '--no-synth'])).toThrow();
+    expect(existsSync(marker)).toBeFalsy();
+  } finally {
+    removeSync(outdir);
+  }
+});
+
+test('projen new --from template does not overwrite existing files', () => {
+  const outdir = mkdtemp();
+  try {
+    const projectdir = createProjectDir(outdir);
+    const templatedir = createTemplateDir(outdir);
+    writeFileSync(join(projectdir, 'README.md'), 'hello');
+
+    expect(() => execProjenCLI(projectdir, ['new', '--from', templatedir, '--no-synth'])).toThrow();
+    expect(directorySnapshot(projectdir, { excludeGlobs: ['.git/**'] })).toStrictEqual({ 'README.md': 'hello' });
+  } finally {
+    removeSync(outdir);
+  }
+});
+
 function createProjectDir(workdir: string) {
   // create project under "my-project" so that basedir is deterministic
   const projectdir = join(workdir, 'my-project');
@@ -161,4 +269,25 @@ function createProjectDir(workdir: string) {
   git('config user.name "My User Name"');
   git('config user.email "my@user.email.com"');
   return projectdir;
-}
\ No newline at end of file
+}
+function createTemplateDir(workdir: string) {
+  const templatedir = join(workdir, 'template');
+  mkdirSync(templatedir);
+  writeFileSync(join(templatedir, '.projenrc.js'), [
+    'const { Project } = require(\'projen\');',
+    'const project = new Project({ name: \'$BASEDIR\' });',
+    'project.synth();',
+  ].join('\n'));
+  writeFileSync(join(templatedir, 'README.md'), '# $BASEDIR\n\nMaintained by $GIT_USER_NAME <$GIT_USER_EMAIL>\n');
+  mkdirSync(join(templatedir, 'src', '$PYTHON_MODULE_NAME'), { recursive: true });
+  writeFileSync(join(templatedir, 'src', '$PYTHON_MODULE_NAME', '__init__.py'), '');
+  return templatedir;
+}
+
+/**
+ * Renders a value as a JSON command line argument (`execProjenCLI` wraps
+ * arguments in double quotes).
+ */
+function jsonArg(value: any) {
+  return JSON.stringify(value).replace(/"/g, '\\"');
+}
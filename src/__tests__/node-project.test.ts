@@ -1,5 +1,5 @@
 import * as yaml from 'yaml';
-import { NodeProject, NodeProjectOptions, LogLevel } from '..';
+import { github, NodeProject, NodeProjectOptions, LogLevel } from '..';
 import { DependencyType } from '../deps';
 import { JobPermission } from '../github/workflows-model';
 import * as logging from '../logging';
@@ -405,6 +405,20 @@ test('projenDuringBuild can be used to disable "projen synth" during build', ()
   expect(buildTaskDisabled.steps).toBeUndefined();
 });
 
+test('projenCheck adds a "projen check" step to the build workflow', () => {
+  // WHEN
+  const project = new TestNodeProject({
+    projenCheck: true,
+  });
+
+  // THEN
+  const workflow = yaml.parse(synthSnapshot(project)['.github/workflows/build.yml']);
+  const steps = workflow.jobs.build.steps;
+  const check = steps.findIndex((s: any) => s.name === 'Check generated files');
+  expect(steps[check]).toStrictEqual({ name: 'Check generated files', run: 'npx projen check' });
+  expect(check).toBeLessThan(steps.findIndex((s: any) => s.name === 'Build'));
+});
+
 test('projen synth is only executed for subprojects', () => {
   // GIVEN
   const root = new TestNodeProject();
@@ -429,6 +443,22 @@ test('projen synth is only executed for subprojects', () => {
   });
 });
 
+test('removing mergify removes its file', () => {
+  // GIVEN
+  const project = new TestNodeProject();
+  const mergify = project.tryFindComponent(github.Mergify)!;
+  expect(mergify).toBe(project.github?.mergify);
+
+  // WHEN
+  project.removeComponent(mergify);
+
+  // THEN
+  const snapshot = synthSnapshot(project);
+  expect(snapshot).not.toHaveProperty(['.mergify.yml']);
+  expect(snapshot['.gitignore']).not.toContain('/.mergify.yml');
+  expect(project.tryFindComponent(github.Mergify)).toBeUndefined();
+});
+
 test('enabling dependabot does not overturn mergify: false', () => {
   // WHEN
   const project = new TestNodeProject({
@@ -166,4 +166,31 @@ describe('overrides', () => {
       'EndWith\\': 42,
     });
   });
-});
\ No newline at end of file
+});
+
+describe('merge', () => {
+  test('content of the merged file is included', () => {
+    // GIVEN
+    const prj = new TestProject();
+    const existing = new JsonFile(prj, 'config.json', { obj: { a: 1, nested: { x: 1, y: 1 }, list: [1] }, marker: false });
+    existing.addOverride('nested.z', 1);
+
+    // WHEN
+    prj.tryRemoveFile('config.json');
+    const file = new JsonFile(prj, 'config.json', { obj: { b: 2, nested: { y: 2 }, list: [2] }, marker: false });
+    file.merge(existing);
+
+    // THEN
+    expect(synthSnapshot(prj)['config.json']).toStrictEqual({
+      a: 1,
+      b: 2,
+      nested: { x: 1, y: 2, z: 1 },
+      list: [2],
+    });
+  });
+
+  test('a file cannot be merged into itself', () => {
+    const file = new JsonFile(new TestProject(), 'config.json', { obj: {} });
+    expect(() => file.merge(file)).toThrow(/cannot merge a file into itself/);
+  });
+});
@@ -1,6 +1,7 @@
 import * as path from 'path';
-import { JsonFile, Project, TextFile } from '..';
-import { TestProject } from './util';
+import * as fs from 'fs-extra';
+import { Component, JsonFile, LogLevel, Makefile, NodeProject, Project, TextFile } from '..';
+import { mkdtemp, TestProject } from './util';
 
 test('file paths are relative to the project outdir', () => {
   // GIVEN
@@ -56,4 +57,191 @@ test('findFile() will also look up files in subprojects', () => {
   // THEN
   expect(result1 === fchild).toBeTruthy();
   expect(result2 === fchild).toBeTruthy();
-});
\ No newline at end of file
+});
+
+describe('validate()', () => {
+  class Invalid extends Component {
+    constructor(project: Project, private readonly errors: string[]) {
+      super(project);
+    }
+
+    public validate() {
+      return this.errors;
+    }
+  }
+
+  test('errors of all components and subprojects are reported together', () => {
+    // GIVEN
+    const p = new TestProject();
+    const sub = new Project({ name: 'sub', parent: p, outdir: 'packages/sub', logging: { level: LogLevel.OFF } });
+    new Invalid(p, ['first error', 'second error']);
+    new Invalid(sub, ['error in subproject']);
+    const makefile = new Makefile(p, 'Makefile');
+    makefile.rules.push({ targets: [] });
+
+    // THEN
+    expect(() => p.synth()).toThrow([
+      'Validation failed with 4 error(s):',
+      '  [.] Invalid: first error',
+      '  [.] Invalid: second error',
+      '  [.] Makefile (Makefile): "targets" cannot be undefined or empty for items in "rules"',
+      '  [packages/sub] Invalid: error in subproject',
+    ].join('\n'));
+  });
+
+  test('generated files are not deleted if validation fails', () => {
+    // GIVEN
+    const p = new TestProject();
+    new JsonFile(p, 'file.json', { obj: { hello: 'world' } });
+    p.synth();
+
+    // WHEN
+    new Invalid(p, ['invalid']);
+
+    // THEN
+    expect(() => p.synth()).toThrow(/Validation failed with 1 error\(s\):\n {2}\[\.\] Invalid: invalid/);
+    expect(fs.existsSync(path.join(p.outdir, 'file.json'))).toBeTruthy();
+  });
+
+  test('projects can be validated', () => {
+    // GIVEN
+    class InvalidProject extends TestProject {
+      public validate() {
+        return ['invalid project'];
+      }
+    }
+
+    // THEN
+    expect(() => new InvalidProject().synth()).toThrow(/\[\.\] my-project: invalid project/);
+  });
+});
+
+describe('components', () => {
+  class Owner extends Component {
+    public readonly file: TextFile;
+
+    constructor(project: Project) {
+      super(project);
+
+      this.file = new TextFile(project, 'owned.txt', { lines: ['hello'] });
+      this.own(this.file);
+
+      const task = this.ownTask(project.addTask('owned'));
+      project.addTask('other').spawn(task);
+      project.addTask('both').spawnParallel([task, project.addTask('sibling')]);
+
+      this.ownGitIgnore('/owned', '/shared');
+    }
+  }
+
+  class Shared extends Component {
+    constructor(project: Project) {
+      super(project);
+      this.ownGitIgnore('/shared');
+    }
+  }
+
+  test('can be found by type', () => {
+    // GIVEN
+    const p = new TestProject();
+    const first = new Owner(p);
+    const second = new Owner(new TestProject({ parent: p, outdir: 'sub' }));
+
+    // THEN
+    expect(p.tryFindComponent(Owner)).toBe(first);
+    expect(p.findComponents(Owner)).toEqual([first]);
+    expect(p.findComponents(TextFile)).toContain(first.file);
+    expect(p.findComponents(TextFile)).not.toContain(second.file);
+    expect(p.tryFindComponent(Makefile)).toBeUndefined();
+  });
+
+  test('can be removed with the files, tasks and .gitignore patterns they contributed', () => {
+    // GIVEN
+    const p = new TestProject();
+    const owner = new Owner(p);
+    new Shared(p);
+
+    // WHEN
+    p.removeComponent(owner);
+
+    // THEN
+    expect(p.components).not.toContain(owner);
+    expect(p.tryFindFile('owned.txt')).toBeUndefined();
+    expect(p.tasks.tryFind('owned')).toBeUndefined();
+    expect(p.tasks.tryFind('other')?.steps).toEqual([]);
+    expect(p.tasks.tryFind('both')?.steps).toEqual([{ parallel: ['sibling'] }]);
+
+    p.synth();
+    const gitignore = fs.readFileSync(path.join(p.outdir, '.gitignore'), 'utf-8').split('\n');
+    expect(gitignore).not.toContain('/owned');
+    expect(gitignore).toContain('/shared');
+    expect(fs.existsSync(path.join(p.outdir, 'owned.txt'))).toBeFalsy();
+  });
+
+  test('cannot be removed from another project', () => {
+    // GIVEN
+    const p = new TestProject();
+    const owner = new Owner(p);
+
+    // THEN
+    expect(() => new TestProject().removeComponent(owner)).toThrow(/Owner is not a component of project "my-project"/);
+  });
+});
+
+describe('options', () => {
+  test('unknown options are reported', () => {
+    // WHEN
+    const p = new Project({ name: 'my-project', outdir: mkdtemp(), logging: { level: LogLevel.OFF }, foo: 'bar' } as any);
+
+    // THEN
+    expect(p.logger._warnings).toContain('Unknown option(s) for Project: foo');
+  });
+
+  test('unknown options fail with "strictOptions"', () => {
+    expect(() => new Project({ name: 'my-project', outdir: mkdtemp(), strictOptions: true, foo: 'bar' } as any))
+      .toThrow('Unknown option(s) for Project: foo');
+  });
+
+  test('deprecated options are reported', () => {
+    // WHEN
+    const p = new NodeProject({
+      name: 'my-project',
+      outdir: mkdtemp(),
+      defaultReleaseBranch: 'main',
+      logging: { level: LogLevel.OFF },
+      npmRegistry: 'registry.example.com',
+    });
+
+    // THEN
+    expect(p.logger._warnings).toStrictEqual(['The "npmRegistry" option of NodeProject is deprecated']);
+  });
+
+  test('options of classes which extend project types are not checked', () => {
+    // GIVEN
+    class MyProject extends Project {}
+
+    // WHEN
+    const p = new MyProject({ name: 'my-project', outdir: mkdtemp(), logging: { level: LogLevel.OFF }, foo: 'bar' } as any);
+
+    // THEN
+    expect(p.logger._warnings).toStrictEqual([]);
+  });
+
+  test('warnings are summarized after synthesis', () => {
+    // GIVEN
+    const stderr = jest.spyOn(console, 'error').mockImplementation(() => {});
+    const p = new Project({ name: 'my-project', outdir: mkdtemp(), logging: { level: LogLevel.WARN }, foo: 'bar' } as any);
+
+    // WHEN
+    let printed: string[];
+    try {
+      p.synth();
+      printed = stderr.mock.calls.map(args => args.join(' '));
+    } finally {
+      stderr.mockRestore();
+    }
+
+    // THEN
+    expect(printed.some(line => line.includes('1 warning(s):\n  - Unknown option(s) for Project: foo'))).toBeTruthy();
+  });
+});
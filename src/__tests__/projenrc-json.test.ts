@@ -0,0 +1,79 @@
+import * as path from 'path';
+import * as fs from 'fs-extra';
+import { NodeProject, Project, ProjectType } from '..';
+import { loadProjenrcJson } from '../cli/projenrc-json';
+import { directorySnapshot, execProjenCLI, mkdtemp, synthSnapshot } from './util';
+
+test('project is created from the options in .projenrc.json', () => {
+  // GIVEN
+  const rcfile = writeProjenrc('.projenrc.json', JSON.stringify({
+    $schema: './schema.json',
+    type: 'projen.Project',
+    name: 'my-project',
+    projectType: 'APP',
+    clobber: false,
+    logging: { level: '00.off' },
+  }));
+
+  // WHEN
+  const project = loadProjenrcJson(rcfile);
+
+  // THEN
+  expect(project).toBeInstanceOf(Project);
+  expect(project.name).toBe('my-project');
+  expect(project.projectType).toBe(ProjectType.APP);
+  expect(project.outdir).toBe(path.dirname(rcfile));
+  expect(project.tasks.tryFind('default')?.steps).toEqual([{ exec: 'npx projen --rc .projenrc.json' }]);
+});
+
+test('YAML files are supported', () => {
+  // GIVEN
+  const rcfile = writeProjenrc('.projenrc.yaml', [
+    'type: projen.NodeProject',
+    'name: my-service',
+    'defaultReleaseBranch: main',
+    'logging:',
+    '  level: 00.off',
+  ].join('\n'));
+
+  // WHEN
+  const project = loadProjenrcJson(rcfile);
+  const output = synthSnapshot(project);
+
+  // THEN
+  expect(project).toBeInstanceOf(NodeProject);
+  expect(output['package.json'].name).toBe('my-service');
+  expect(output['.projenrc.js']).toBeUndefined();
+  expect(output['.projen/tasks.json'].tasks.default.steps).toEqual([{ exec: 'npx projen --rc .projenrc.yaml' }]);
+});
+
+test('"type" must be a project type', () => {
+  expect(() => loadProjenrcJson(writeProjenrc('.projenrc.json', '{ "name": "foo" }')))
+    .toThrow(/"type" must be the jsii FQN of a project type/);
+  expect(() => loadProjenrcJson(writeProjenrc('.projenrc.json', '{ "type": "projen.Eslint" }')))
+    .toThrow(/"projen.Eslint" is not a project type/);
+});
+
+test('the CLI synthesizes .projenrc.json', () => {
+  // GIVEN
+  const rcfile = writeProjenrc('.projenrc.json', JSON.stringify({
+    type: 'projen.Project',
+    name: 'my-project',
+    logging: { level: '00.off' },
+  }));
+  const workdir = path.dirname(rcfile);
+
+  // WHEN
+  execProjenCLI(workdir);
+
+  // THEN
+  const output = directorySnapshot(workdir);
+  expect(output['.projen/tasks.json'].tasks.default).toBeDefined();
+  expect(output['.gitignore']).toBeDefined();
+});
+
+function writeProjenrc(filename: string, content: string) {
+  const rcfile = path.join(mkdtemp(), filename);
+  fs.writeFileSync(rcfile, content);
+  return rcfile;
+}
@@ -1,4 +1,5 @@
 import { renderProjenNewOptions } from '../../javascript/render-options';
+import { NewProjectOptionHints } from '../../option-hints';
 import { ProjectType } from '../../project';
 import { Projenrc } from '../../python/projenrc';
 import { synthSnapshot, TestProject } from '../util';
@@ -47,3 +48,33 @@ test('javascript values are translated to python', () => {
   // THEN
   expect(synthSnapshot(project)['.projenrc.py']).toMatchSnapshot();
 });
+
+test('featured options are rendered as comments', () => {
+  // GIVEN
+  const project = new TestProject(renderProjenNewOptions('projen.python.PythonProject', {
+    moduleName: 'my_project',
+  }, NewProjectOptionHints.FEATURED));
+
+  // WHEN
+  new Projenrc(project);
+
+  // THEN
+  const projenrc = synthSnapshot(project)['.projenrc.py'];
+  expect(projenrc).toContain('    module_name="my_project",\n');
+  expect(projenrc).toMatch(/^    # venv=True, +# Use venv to manage a virtual environment/m);
+  expect(projenrc).not.toContain('# module_name=');
+  expect(projenrc).toMatchSnapshot();
+});
+
+test('defaults which are not literals are not rendered', () => {
+  // GIVEN
+  const project = new TestProject(renderProjenNewOptions('projen.python.PythonProject', {}, NewProjectOptionHints.ALL));
+
+  // WHEN
+  new Projenrc(project);
+
+  // THEN
+  const projenrc = synthSnapshot(project)['.projenrc.py'];
+  expect(projenrc).not.toContain('$');
+  expect(projenrc).toMatch(/^    # name=None, +# This is the name of your project/m);
+});
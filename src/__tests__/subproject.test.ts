@@ -1,8 +1,8 @@
 import * as path from 'path';
 import * as fs from 'fs-extra';
-import { Project, TextFile, LogLevel, ProjectOptions } from '..';
+import { Component, JsonFile, Project, SampleFile, TextFile, LogLevel, ProjectOptions } from '..';
 import { PROJEN_MARKER } from '../common';
-import { TestProject } from './util';
+import { synthSnapshot, TestProject } from './util';
 
 test('composing projects declaratively', () => {
   const comp = new TestProject();
@@ -55,6 +55,51 @@ test('subprojects cannot introduce files that override each other', () => {
   expect(() => new TextFile(child, 'file.txt')).toThrow(/there is already a file under sub-project(\\|\/)file\.txt/);
 });
 
+test('file conflicts name the components which created the files', () => {
+  class Config extends Component {
+    constructor(project: Project, filePath: string) {
+      super(project);
+      this.own(new JsonFile(project, filePath, { obj: {} }));
+    }
+  }
+  class OtherConfig extends Config { }
+
+  // the root project's own file is found first when it is created, so this
+  // conflict is detected during validation
+  const root = new TestProject();
+  const child = new TestSubproject({ name: 'sub-project', parent: root, outdir: 'sub-project' });
+  new Config(child, 'config.json');
+  new OtherConfig(root, 'sub-project/config.json');
+
+  expect(() => root.synth()).toThrow(/\[sub-project\] JsonFile \(config\.json\): there is already a file under sub-project(\\|\/)config\.json: OtherConfig \(JsonFile\) of project "my-project" conflicts with Config \(JsonFile\) of project "sub-project"/);
+});
+
+test('files can be taken over with tryRemoveFile()', () => {
+  const root = new TestProject();
+  const child = new TestSubproject({ name: 'sub-project', parent: root, outdir: 'sub-project' });
+  const original = new TextFile(root, 'sub-project/file.txt', { lines: ['original'] });
+
+  // WHEN
+  expect(root.tryRemoveFile('sub-project/file.txt')).toBe(original);
+  new TextFile(child, 'file.txt', { lines: ['replaced'] });
+
+  // THEN
+  expect(root.tryRemoveFile('missing.txt')).toBeUndefined();
+  expect(root.files).not.toContain(original);
+  const output = synthSnapshot(root);
+  expect(output['sub-project/file.txt']).toStrictEqual('replaced');
+  expect(output['.gitignore']).not.toContain('/sub-project/file.txt');
+});
+
+test('sample files cannot be written to paths of generated files', () => {
+  const root = new TestProject();
+  const child = new TestSubproject({ name: 'sub-project', parent: root, outdir: 'sub-project' });
+  new TextFile(root, 'sub-project/file.txt');
+  new SampleFile(child, 'file.txt', { contents: 'sample' });
+
+  expect(() => root.synth()).toThrow(/\[sub-project\] SampleFile: TextFile of project "my-project" writes the same file \(file\.txt\)/);
+});
+
 test('"outdir" for subprojects must be relative', () => {
   const root = new TestProject();
   expect(() => new TestSubproject({ name: 'foobar', parent: root, outdir: '/foo/bar' })).toThrow(/"outdir" must be a relative path/);
@@ -0,0 +1,33 @@
+import { parseDotenv } from '../../tasks/dotenv';
+
+test('parses variables', () => {
+  expect(parseDotenv([
+    '# comment',
+    '',
+    'FOO=bar',
+    'export EXPORTED=yes',
+    '  SPACES = around  ',
+    'INLINE=value # comment',
+    'HASH=with#hash',
+    'EMPTY=',
+    'SINGLE=\'single $quoted # not a comment\'',
+    'DOUBLE="line1\\nline2 \\"quoted\\""',
+    'MULTI="first',
+    'second"',
+  ].join('\n'))).toStrictEqual({
+    FOO: 'bar',
+    EXPORTED: 'yes',
+    SPACES: 'around',
+    INLINE: 'value',
+    HASH: 'with#hash',
+    EMPTY: '',
+    SINGLE: 'single $quoted # not a comment',
+    DOUBLE: 'line1\nline2 "quoted"',
+    MULTI: 'first\nsecond',
+  });
+});
+
+test('fails on invalid syntax', () => {
+  expect(() => parseDotenv('FOO=bar\nnot a variable')).toThrow(/invalid syntax in line 2: not a variable/);
+  expect(() => parseDotenv('FOO="unterminated')).toThrow(/unterminated quoted value for FOO/);
+});
@@ -0,0 +1,101 @@
+import { spawnSync } from 'child_process';
+import { TasksManifest } from '../../tasks';
+import { TaskGraph } from '../../tasks/graph';
+import { TestProject } from '../util';
+
+const manifest: TasksManifest = {
+  tasks: {
+    'build': {
+      name: 'build',
+      steps: [
+        { spawn: 'test:compile' },
+        { parallel: ['lint', 'test'] },
+        { spawn: 'deploy' },
+      ],
+    },
+    'test:compile': { name: 'test:compile', steps: [{ exec: 'tsc' }] },
+    'lint': { name: 'lint', steps: [{ exec: 'eslint' }] },
+    'test': { name: 'test', steps: [{ spawn: 'test:compile' }, { exec: 'jest' }] },
+    'deploy': { name: 'deploy', condition: '[ -n "$CI" ]', steps: [{ exec: 'cdk deploy' }] },
+    'other': { name: 'other' },
+  },
+};
+
+test('nodes and edges', () => {
+  const graph = new TaskGraph(manifest);
+
+  expect(graph.tasks).toStrictEqual(['build', 'deploy', 'lint', 'other', 'test', 'test:compile']);
+  expect(graph.edges).toStrictEqual([
+    { from: 'build', to: 'test:compile', condition: undefined, parallel: false },
+    { from: 'build', to: 'lint', condition: undefined, parallel: true },
+    { from: 'build', to: 'test', condition: undefined, parallel: true },
+    { from: 'test', to: 'test:compile', condition: undefined, parallel: false },
+    { from: 'build', to: 'deploy', condition: '[ -n "$CI" ]', parallel: false },
+  ]);
+  expect(graph.findCycle()).toBeUndefined();
+});
+
+test('graph of a single task only includes its subtasks', () => {
+  const graph = new TaskGraph(manifest, 'test');
+
+  expect(graph.tasks).toStrictEqual(['test', 'test:compile']);
+  expect(() => new TaskGraph(manifest, 'missing')).toThrow(/cannot find task "missing"/);
+});
+
+test('DOT', () => {
+  expect(new TaskGraph(manifest).toDot()).toMatchSnapshot();
+});
+
+test('Mermaid', () => {
+  expect(new TaskGraph(manifest).toMermaid()).toMatchSnapshot();
+});
+
+test('cycles', () => {
+  const graph = new TaskGraph({
+    tasks: {
+      a: { name: 'a', steps: [{ spawn: 'b' }] },
+      b: { name: 'b', steps: [{ parallel: ['c', 'd'] }] },
+      c: { name: 'c' },
+      d: { name: 'd', steps: [{ spawn: 'b' }] },
+    },
+  });
+
+  expect(graph.findCycle()).toStrictEqual(['b', 'd', 'b']);
+});
+
+test('tasks with cycles are not executed', () => {
+  // GIVEN
+  const p = new TestProject();
+  const a = p.addTask('a', { exec: 'echo a' });
+  const b = p.addTask('b');
+  a.spawn(b);
+  b.spawn(a);
+  p.synth();
+
+  // WHEN
+  const result = spawnSync(process.execPath, [require.resolve('../../cli'), 'a'], { cwd: p.outdir });
+
+  // THEN
+  expect(result.status).toStrictEqual(1);
+  expect(result.stdout.toString()).toStrictEqual('');
+  expect(result.stderr.toString()).toContain('Task "a" cannot be executed because its subtasks form a cycle: a » b » a');
+});
+
+test('"projen graph" renders the graph', () => {
+  // GIVEN
+  const p = new TestProject();
+  p.addTask('hello').spawn(p.addTask('world'));
+  p.synth();
+
+  // WHEN
+  const result = spawnSync(process.execPath, [require.resolve('../../cli'), 'graph', '--format', 'mermaid'], { cwd: p.outdir });
+
+  // THEN
+  expect(result.stdout.toString()).toStrictEqual([
+    'graph LR',
+    '  t0["hello"]',
+    '  t1["world"]',
+    '  t0 --> t1',
+    '',
+  ].join('\n'));
+});
@@ -0,0 +1,106 @@
+import { spawnSync } from 'child_process';
+import { resolveTask } from '../../cli/tasks';
+import { TaskCategory, TaskRuntime } from '../../tasks';
+import { TestProject } from '../util';
+
+test('resolveTask() expands subtasks and includes the global environment', () => {
+  // GIVEN
+  const p = new TestProject();
+  p.tasks.addEnvironment('GLOBAL', 'global');
+  const compile = p.addTask('compile', { exec: 'tsc', cwd: 'src', env: { FOO: 'bar' } });
+  const lint = p.addTask('lint', { exec: 'eslint', condition: 'test -f .eslintrc.json' });
+  const test = p.addTask('test', { exec: 'jest' });
+  const build = p.addTask('build', { description: 'Full build', category: TaskCategory.BUILD });
+  build.spawn(compile);
+  build.spawnParallel([lint, test], { concurrency: 2 });
+  p.synth();
+
+  // WHEN
+  const resolved = resolveTask(new TaskRuntime(p.outdir), 'build');
+
+  // THEN
+  expect(JSON.parse(JSON.stringify(resolved))).toStrictEqual({
+    name: 'build',
+    description: 'Full build',
+    category: TaskCategory.BUILD,
+    env: { GLOBAL: 'global' },
+    steps: [
+      {
+        spawn: 'compile',
+        subtask: {
+          name: 'compile',
+          cwd: 'src',
+          env: { GLOBAL: 'global', FOO: 'bar' },
+          steps: [{ exec: 'tsc' }],
+        },
+      },
+      {
+        parallel: ['lint', 'test'],
+        concurrency: 2,
+        subtasks: [
+          {
+            name: 'lint',
+            condition: 'test -f .eslintrc.json',
+            env: { GLOBAL: 'global' },
+            steps: [{ exec: 'eslint' }],
+          },
+          {
+            name: 'test',
+            env: { GLOBAL: 'global' },
+            steps: [{ exec: 'jest' }],
+          },
+        ],
+      },
+    ],
+  });
+});
+
+test('resolveTask() fails if a task spawns itself', () => {
+  // GIVEN
+  const p = new TestProject();
+  const t1 = p.addTask('t1');
+  const t2 = p.addTask('t2');
+  t1.spawn(t2);
+  t2.spawn(t1);
+  p.synth();
+
+  // THEN
+  expect(() => resolveTask(new TaskRuntime(p.outdir), 't1')).toThrow(/t1: task spawns itself: t1 » t2 » t1/);
+});
+
+test('"projen tasks --json" prints all tasks', () => {
+  // GIVEN
+  const p = new TestProject();
+  const hello = p.addTask('hello', { exec: 'echo hello' });
+  p.addTask('all').spawn(hello);
+  p.synth();
+
+  // WHEN
+  const tasks = JSON.parse(execCLI(p.outdir, 'tasks', '--json'));
+
+  // THEN
+  expect(Object.keys(tasks)).toStrictEqual(['all', 'hello']);
+  expect(tasks.all.steps[0].subtask).toStrictEqual({ name: 'hello', steps: [{ exec: 'echo hello' }] });
+});
+
+test('"projen TASK --inspect --json" prints the task', () => {
+  // GIVEN
+  const p = new TestProject();
+  p.addTask('hello', { exec: 'echo hello', description: 'say hello' });
+  p.synth();
+
+  // WHEN
+  const task = JSON.parse(execCLI(p.outdir, 'hello', '--inspect', '--json'));
+
+  // THEN
+  expect(task).toStrictEqual({ name: 'hello', description: 'say hello', steps: [{ exec: 'echo hello' }] });
+});
+
+function execCLI(cwd: string, ...args: string[]) {
+  const result = spawnSync(process.execPath, [require.resolve('../../cli'), ...args], { cwd });
+  if (result.status !== 0) {
+    throw new Error(`non-zero exit code: ${result.stderr.toString('utf-8')}`);
+  }
+
+  return result.stdout.toString('utf-8');
+}
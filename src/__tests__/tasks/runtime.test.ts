@@ -1,10 +1,10 @@
 import { spawnSync } from 'child_process';
 import { EOL } from 'os';
 import { basename, join } from 'path';
-import { mkdirpSync } from 'fs-extra';
+import { existsSync, mkdirpSync, readdirSync, readFileSync, readJsonSync, removeSync, writeFileSync } from 'fs-extra';
 import { Project } from '../..';
-import { TaskRuntime } from '../../tasks';
-import { TestProject } from '../util';
+import { TaskRuntime, Tasks } from '../../tasks';
+import { synthSnapshot, TestProject } from '../util';
 
 test('minimal case (just a shell command)', () => {
   // GIVEN
@@ -186,15 +186,389 @@ describe('say', () => {
 
 });
 
-function executeTask(p: Project, taskName: string) {
+describe('parallel', () => {
+  test('subtasks are executed and their output is prefixed with the task name', () => {
+    const p = new TestProject();
+    const a = p.addTask('a', { exec: 'echo hello from a' });
+    const bb = p.addTask('bb', { exec: 'echo hello from bb' });
+    const t = p.addTask('test');
+    t.spawnParallel([a, bb]);
+    t.exec('echo done');
+
+    const lines = executeTask(p, 'test');
+    expect(lines).toContain('a  | hello from a');
+    expect(lines).toContain('bb | hello from bb');
+    expect(lines[lines.length - 1]).toStrictEqual('done');
+  });
+
+  test('subtasks run concurrently', () => {
+    const p = new TestProject();
+    const slow = p.addTask('slow');
+    slow.exec('sleep 1');
+    slow.exec('echo slow');
+    const fast = p.addTask('fast', { exec: 'echo fast' });
+    p.addTask('test').spawnParallel([slow, fast], { concurrency: 2 });
+
+    expect(executeTask(p, 'test')).toStrictEqual(['fast | fast', 'slow | slow']);
+  });
+
+  test('concurrency limits the number of subtasks executed at the same time', () => {
+    const p = new TestProject();
+    const slow = p.addTask('slow');
+    slow.exec('sleep 1');
+    slow.exec('echo slow');
+    const fast = p.addTask('fast', { exec: 'echo fast' });
+    p.addTask('test').spawnParallel([slow, fast], { concurrency: 1 });
+
+    expect(executeTask(p, 'test')).toStrictEqual(['slow | slow', 'fast | fast']);
+  });
+
+  test('a failing subtask stops the whole group', () => {
+    const p = new TestProject();
+    const failing = p.addTask('failing', { exec: 'false' });
+    const slow = p.addTask('slow');
+    slow.exec('sleep 5');
+    slow.exec('echo should not be printed');
+    const t = p.addTask('test');
+    t.spawnParallel([failing, slow], { concurrency: 2 });
+    t.exec('echo should not be printed either');
+
+    expect(() => executeTask(p, 'test')).toThrow(/Task "failing" failed \(exit code 1\)[\s\S]*Task "test" failed when executing parallel subtasks: failing, slow/);
+  });
+
+  test('unknown subtasks fail the task', () => {
+    const p = new TestProject();
+    p.addTask('test').spawnParallel([new TestProject().addTask('missing')]);
+
+    expect(() => executeTask(p, 'test')).toThrow(/cannot find subtask "missing"/);
+  });
+
+  test('subtasks have the same environment as spawned subtasks', () => {
+    const p = new TestProject();
+    writeFileSync(join(p.outdir, 'parent.env'), 'FROM_PARENT_FILE=parent\nFOO=from-parent-file');
+    writeFileSync(join(p.outdir, 'sub.env'), 'FOO=from-sub-file');
+    const sub = p.addTask('sub', {
+      envFiles: ['sub.env'],
+      exec: 'echo FOO=$FOO FROM_PARENT_FILE=$FROM_PARENT_FILE FROM_PARENT=$FROM_PARENT FROM_CLI=$FROM_CLI',
+    });
+    const parent = { envFiles: ['parent.env'], env: { FROM_PARENT: 'parent' } };
+    p.addTask('spawn', parent).spawn(sub);
+    p.addTask('parallel', parent).spawnParallel([sub]);
+
+    const env = { FROM_CLI: 'cli' };
+    const spawned = executeTask(p, 'spawn', [], env);
+    expect(spawned).toStrictEqual(['FOO=from-sub-file FROM_PARENT_FILE= FROM_PARENT= FROM_CLI=cli']);
+    expect(executeTask(p, 'parallel', [], env)).toStrictEqual(spawned.map(line => `sub | ${line}`));
+  });
+
+  test('arguments are passed to subtasks with "receiveArgs"', () => {
+    const p = new TestProject();
+    const sub = p.addTask('sub');
+    sub.exec('echo args:', { receiveArgs: true });
+    p.addTask('test').spawnParallel([sub], { receiveArgs: true });
+    p.addTask('noargs').spawnParallel([sub]);
+
+    expect(executeTask(p, 'test', ['--', '-t', 'my test'])).toStrictEqual(['sub | args: -t my test']);
+    expect(executeTask(p, 'noargs', ['--', '-t', 'my test'])).toStrictEqual(['sub | args:']);
+  });
+});
+
+describe('arguments', () => {
+  test('arguments after "--" are appended to steps with "receiveArgs"', () => {
+    const p = new TestProject();
+    const t = p.addTask('test');
+    t.exec('echo args:', { receiveArgs: true });
+    t.exec('echo no args');
+
+    expect(executeTask(p, 'test', ['--', '-t', 'my test', 'it\'s'])).toStrictEqual([
+      'args: -t my test it\'s',
+      'no args',
+    ]);
+  });
+
+  test('only arguments after "--" are passed to steps', () => {
+    const p = new TestProject();
+    p.addTask('test').exec('echo args:', { receiveArgs: true });
+
+    expect(executeTask(p, 'test', ['--foo', '--', 'bar', '--baz'])).toStrictEqual(['args: bar --baz']);
+    expect(() => executeTask(p, 'test', ['foo'])).toThrow(/Unknown command: foo/);
+  });
+
+  test('arguments are passed to spawned subtasks with "receiveArgs"', () => {
+    const p = new TestProject();
+    const sub = p.addTask('sub');
+    sub.exec('echo sub:', { receiveArgs: true });
+    p.addTask('test').spawn(sub, { receiveArgs: true });
+    p.addTask('noargs').spawn(sub);
+
+    expect(executeTask(p, 'test', ['--', 'foo'])).toStrictEqual(['sub: foo']);
+    expect(executeTask(p, 'noargs', ['--', 'foo'])).toStrictEqual(['sub:']);
+  });
+
+  test('no arguments', () => {
+    const p = new TestProject();
+    p.addTask('test').exec('echo args:', { receiveArgs: true });
+
+    expect(executeTask(p, 'test')).toStrictEqual(['args:']);
+  });
+});
+
+describe('environment files', () => {
+  test('variables are loaded from environment files', () => {
+    const p = new TestProject();
+    writeFileSync(join(p.outdir, '.env'), 'GLOBAL=global\nFOO=from-global-file\nBAR=from-global-file');
+    writeFileSync(join(p.outdir, 'task.env'), 'BAR=from-task-file\nBAZ=from-task-file\nOVERRIDE=from-file');
+    p.tasks.addEnvFile('.env');
+    p.addTask('test', {
+      envFiles: ['task.env', 'missing.env'],
+      env: { OVERRIDE: 'from-task' },
+      exec: 'echo $GLOBAL $FOO $BAR $BAZ $OVERRIDE',
+    });
+
+    expect(executeTask(p, 'test')).toStrictEqual(['global from-global-file from-task-file from-task-file from-task']);
+  });
+
+  test('process.env takes precedence over environment files', () => {
+    const p = new TestProject();
+    writeFileSync(join(p.outdir, '.env'), 'FOO=from-file');
+    p.addTask('test', { exec: 'echo $FOO' }).addEnvFile('.env');
+
+    expect(executeTask(p, 'test', [], { FOO: 'from-process' })).toStrictEqual(['from-process']);
+  });
+
+  test('environment-specific files are loaded with --env', () => {
+    const p = new TestProject();
+    writeFileSync(join(p.outdir, '.env'), 'STAGE=default\nFOO=foo');
+    writeFileSync(join(p.outdir, 'other.env'), 'STAGE=other');
+    writeFileSync(join(p.outdir, '.env.staging'), 'STAGE=staging');
+    p.tasks.addEnvFile('.env');
+    p.addTask('test', { envFiles: ['other.env'], exec: 'echo $STAGE $FOO' });
+
+    expect(executeTask(p, 'test')).toStrictEqual(['other foo']);
+    expect(executeTask(p, 'test', ['--env', 'staging'])).toStrictEqual(['staging foo']);
+    expect(() => executeTask(p, 'test', ['--env', 'prod'])).toThrow(/Task "test" cannot find environment files for "prod": .*\.env\.prod, .*other\.env\.prod/);
+  });
+
+  test('values are not evaluated by the shell', () => {
+    const p = new TestProject();
+    writeFileSync(join(p.outdir, '.env'), 'FOO=\'$(echo evaluated)\'');
+    p.addTask('test', { envFiles: ['.env'], exec: 'echo "$FOO"' });
+
+    expect(executeTask(p, 'test')).toStrictEqual(['$(echo evaluated)']);
+  });
+});
+
+describe('timeout and retry', () => {
+  test('failed steps are retried', () => {
+    const p = new TestProject();
+    p.addTask('test').exec('if [ -f marker ]; then echo success; else touch marker && exit 1; fi', {
+      retry: { count: 2, backoff: 0 },
+    });
+
+    expect(executeTask(p, 'test')).toStrictEqual(['success']);
+  });
+
+  test('the task fails if all attempts failed', () => {
+    const p = new TestProject();
+    p.addTask('test').exec('false', { retry: { count: 2, backoff: 0 } });
+
+    expect(() => executeTask(p, 'test')).toThrow(/"false" failed \(attempt 1\/3\) - retrying in 0s[\s\S]*"false" failed \(attempt 2\/3\)[\s\S]*Task "test" failed when executing "false" \(cwd: .*, attempt 3\/3\)/);
+  });
+
+  test('steps which run longer than their timeout are terminated', () => {
+    const p = new TestProject();
+    const t = p.addTask('test');
+    t.exec('sleep 10', { timeout: 1 });
+    t.exec('echo not executed');
+
+    expect(() => executeTask(p, 'test')).toThrow(/Task "test" failed when executing "sleep 10" \(cwd: .*, timed out after 1s\)/);
+  });
+
+  test('processes started by a step which timed out are terminated as well', () => {
+    const p = new TestProject();
+    p.addTask('test').exec('sh -c "sleep 1 && touch leaked.txt"', { timeout: 0.5 });
+
+    expect(() => executeTask(p, 'test')).toThrow(/timed out after 0.5s/);
+    spawnSync('sleep', ['2']);
+    expect(existsSync(join(p.outdir, 'leaked.txt'))).toBeFalsy();
+  });
+
+  test('timed out steps are retried', () => {
+    const p = new TestProject();
+    p.addTask('test').exec('sleep 10', { timeout: 0.5, retry: { count: 1, backoff: 0 } });
+
+    expect(() => executeTask(p, 'test')).toThrow(/"sleep 10" timed out after 0.5s \(attempt 1\/2\)[\s\S]*\(cwd: .*, attempt 2\/2, timed out after 0.5s\)/);
+  });
+});
+
+describe('execution report', () => {
+  function createProject() {
+    const p = new TestProject();
+    const compile = p.addTask('compile', { exec: 'echo compiling' });
+    const deploy = p.addTask('deploy', { condition: 'false', exec: 'echo deploying' });
+    const build = p.addTask('build');
+    build.spawn(compile);
+    build.spawn(deploy);
+    build.exec('echo done', { name: 'finish' });
+    return p;
+  }
+
+  test('JSON', () => {
+    const p = createProject();
+
+    executeTask(p, 'build', ['--report', 'reports/build.json']);
+
+    const report = readJsonSync(join(p.outdir, 'reports', 'build.json'));
+    expect(report).toMatchObject({
+      name: 'build',
+      fullname: 'build',
+      status: 'success',
+      steps: [
+        {
+          name: 'spawn: compile',
+          status: 'success',
+          subtask: {
+            name: 'compile',
+            fullname: 'build » compile',
+            status: 'success',
+            steps: [{ name: 'echo compiling', step: { exec: 'echo compiling' }, status: 'success', exitCode: 0, attempts: 1 }],
+          },
+        },
+        {
+          name: 'spawn: deploy',
+          status: 'success',
+          subtask: { name: 'deploy', status: 'skipped', skipReason: 'condition exited with non-zero', steps: [] },
+        },
+        { name: 'finish', status: 'success', exitCode: 0 },
+      ],
+    });
+    expect(typeof report.duration).toStrictEqual('number');
+    expect(typeof report.steps[0].subtask.steps[0].duration).toStrictEqual('number');
+    expect(new Date(report.start).toISOString()).toStrictEqual(report.start);
+  });
+
+  test('JUnit XML', () => {
+    const p = createProject();
+
+    executeTask(p, 'build', ['--report', 'build.xml']);
+
+    const xml = readFileSync(join(p.outdir, 'build.xml'), 'utf-8');
+    expect(xml).toContain('<testsuites name="build"');
+    expect(xml).toMatch(/<testsuite name="build » compile" timestamp="[^"]+" time="[\d.]+" tests="1" failures="0" skipped="0">\s*<testcase name="echo compiling" classname="build » compile" time="[\d.]+"\/>/);
+    expect(xml).toMatch(/<testcase name="deploy" classname="build » deploy" time="0.000">\s*<skipped message="condition exited with non-zero"\/>/);
+  });
+
+  test('failures are reported', () => {
+    const p = new TestProject();
+    p.addTask('test', { exec: 'exit 3' });
+
+    expect(() => executeTask(p, 'test', ['--report', 'report.json', '--report', 'report.xml'])).toThrow(/failed when executing/);
+
+    const report = readJsonSync(join(p.outdir, 'report.json'));
+    expect(report.status).toStrictEqual('failure');
+    expect(report.steps[0]).toMatchObject({ status: 'failure', exitCode: 3, error: expect.stringMatching(/Task "test" failed when executing "exit 3"/) });
+    expect(readFileSync(join(p.outdir, 'report.xml'), 'utf-8')).toMatch(/<testcase name="exit 3" classname="test" time="[\d.]+">\s*<failure message="Task &quot;test&quot; failed when executing/);
+  });
+});
+
+describe('inputs and outputs', () => {
+  test('task is skipped if its inputs did not change', () => {
+    const p = new TestProject();
+    mkdirpSync(join(p.outdir, 'src'));
+    writeFileSync(join(p.outdir, 'src', 'index.ts'), 'v1');
+    p.addTask('compile', { exec: 'echo compiling', inputs: ['src/**'] });
+
+    expect(executeTask(p, 'compile')).toStrictEqual(['compiling']);
+    expect(executeTask(p, 'compile')).toStrictEqual(['']);
+
+    // WHEN
+    writeFileSync(join(p.outdir, 'src', 'index.ts'), 'v2');
+
+    // THEN
+    expect(executeTask(p, 'compile')).toStrictEqual(['compiling']);
+    expect(executeTask(p, 'compile')).toStrictEqual(['']);
+    expect(readdirSync(join(p.outdir, Tasks.CACHE_DIR))).toContain('compile.json');
+  });
+
+  test('task is executed if an output was changed or deleted', () => {
+    const p = new TestProject();
+    writeFileSync(join(p.outdir, 'input.txt'), 'input');
+    const task = p.addTask('build', { inputs: ['input.txt'] });
+    task.addOutputs('out/**');
+    task.exec('echo building');
+    task.exec('mkdir -p out && cp input.txt out/output.txt');
+
+    expect(executeTask(p, 'build')).toStrictEqual(['building']);
+    expect(executeTask(p, 'build')).toStrictEqual(['']);
+
+    // WHEN
+    removeSync(join(p.outdir, 'out', 'output.txt'));
+
+    // THEN
+    expect(executeTask(p, 'build')).toStrictEqual(['building']);
+    expect(executeTask(p, 'build')).toStrictEqual(['']);
+  });
+
+  test('task is executed if its definition changed', () => {
+    const p = new TestProject();
+    writeFileSync(join(p.outdir, 'input.txt'), 'input');
+    const task = p.addTask('build', { exec: 'echo step1', inputs: ['input.txt'] });
+
+    expect(executeTask(p, 'build')).toStrictEqual(['step1']);
+
+    // WHEN
+    task.exec('echo step2');
+
+    // THEN
+    expect(executeTask(p, 'build')).toStrictEqual(['step1', 'step2']);
+  });
+
+  test('task is executed if its arguments changed', () => {
+    const p = new TestProject();
+    writeFileSync(join(p.outdir, 'input.txt'), 'input');
+    p.addTask('test', { inputs: ['input.txt'] }).exec('echo args:', { receiveArgs: true });
+
+    expect(executeTask(p, 'test', ['--', '-t', 'a'])).toStrictEqual(['args: -t a']);
+    expect(executeTask(p, 'test', ['--', '-t', 'a'])).toStrictEqual(['']);
+    expect(executeTask(p, 'test', ['--', '-t', 'b'])).toStrictEqual(['args: -t b']);
+  });
+
+  test('failed executions are not cached', () => {
+    const p = new TestProject();
+    writeFileSync(join(p.outdir, 'input.txt'), 'input');
+    p.addTask('build', { exec: 'echo failing && false', inputs: ['input.txt'] });
+
+    expect(() => executeTask(p, 'build')).toThrow(/failed when executing/);
+    expect(() => executeTask(p, 'build')).toThrow(/failed when executing/);
+  });
+
+  test('--force ignores the cache', () => {
+    const p = new TestProject();
+    writeFileSync(join(p.outdir, 'input.txt'), 'input');
+    p.addTask('build', { exec: 'echo building', inputs: ['input.txt'] });
+
+    expect(executeTask(p, 'build')).toStrictEqual(['building']);
+    expect(executeTask(p, 'build', ['--force'])).toStrictEqual(['building']);
+  });
+
+  test('the cache directory is ignored by git', () => {
+    const p = new TestProject();
+    p.addTask('build', { exec: 'echo building', inputs: ['input.txt'] });
+
+    expect(synthSnapshot(p)['.gitignore']).toContain('/.projen/cache/');
+  });
+});
+
+function executeTask(p: Project, taskName: string, extraArgs: string[] = [], env: { [name: string]: string } = {}) {
   p.synth();
 
   const args = [
     require.resolve('../../cli'),
     taskName,
+    ...extraArgs,
   ].map(x => `"${x}"`);
 
-  const result = spawnSync(`"${process.execPath}"`, args, { cwd: p.outdir, shell: true, env: { ...process.env } });
+  const result = spawnSync(`"${process.execPath}"`, args, { cwd: p.outdir, shell: true, env: { ...process.env, ...env } });
   if (result.status !== 0) {
     throw new Error(`non-zero exit code: ${result.stderr.toString('utf-8')}`);
   }
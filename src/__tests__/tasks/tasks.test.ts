@@ -82,6 +82,49 @@ test('throw when removing a dependent task', () => {
     .toThrowError('Unable to remove task "dependent" because the following tasks depend on it: primary');
 });
 
+test('throw when removing a task which is spawned in parallel', () => {
+  const p = new TestProject();
+
+  // WHEN
+  const primary = p.addTask('primary');
+  primary.spawnParallel([p.addTask('dep1'), p.addTask('dep2')]);
+
+  // THEN
+  expect(() => p.removeTask('dep2'))
+    .toThrowError('Unable to remove task "dep2" because the following tasks depend on it: primary');
+});
+
+test('parallel steps', () => {
+  const p = new TestProject();
+
+  // WHEN
+  const t1 = p.addTask('t1');
+  const t2 = p.addTask('t2');
+  p.addTask('all').spawnParallel([t1, t2], { concurrency: 2, name: 'in parallel' });
+
+  // THEN
+  expectManifest(p, {
+    tasks: {
+      all: {
+        name: 'all',
+        steps: [{ parallel: ['t1', 't2'], concurrency: 2, name: 'in parallel' }],
+      },
+      t1: { name: 't1' },
+      t2: { name: 't2' },
+    },
+  });
+});
+
+test('parallel steps require at least one subtask and a valid concurrency', () => {
+  const p = new TestProject();
+  const t = p.addTask('t');
+  const sub = p.addTask('sub');
+
+  expect(() => t.spawnParallel([])).toThrow(/at least one subtask is required/);
+  expect(() => t.spawnParallel([sub], { concurrency: 0 })).toThrow(/"concurrency" must be a positive integer/);
+  expect(() => t.spawnParallel([sub], { concurrency: 1.5 })).toThrow(/"concurrency" must be a positive integer/);
+});
+
 test('remove already removed task', () => {
   const p = new TestProject();
 
@@ -293,6 +336,73 @@ test('"condition" can be used to define a command that will determine if a task
   });
 });
 
+test('"timeout" and "retry" are rendered to the manifest', () => {
+  const p = new TestProject();
+
+  // WHEN
+  p.addTask('publish').exec('npm publish', { timeout: 300, retry: { count: 3, backoff: 5 } });
+
+  // THEN
+  expectManifest(p, {
+    tasks: {
+      publish: {
+        name: 'publish',
+        steps: [{ exec: 'npm publish', timeout: 300, retry: { count: 3, backoff: 5 } }],
+      },
+    },
+  });
+});
+
+test('"timeout" and "retry" are validated', () => {
+  const t = new TestProject().addTask('t');
+
+  expect(() => t.exec('x', { timeout: 0 })).toThrow(/"timeout" must be a positive number of seconds. got: 0/);
+  expect(() => t.exec('x', { retry: { count: -1 } })).toThrow(/"retry.count" must be a non-negative integer. got: -1/);
+  expect(() => t.prependExec('x', { retry: { count: 1, backoff: -2 } })).toThrow(/"retry.backoff" must be a non-negative number of seconds. got: -2/);
+  expect(() => t.spawn(t, { timeout: 10 })).toThrow(/"timeout" is only supported for exec steps/);
+  expect(() => t.prependSpawn(t, { retry: { count: 1 } })).toThrow(/"retry" is only supported for exec steps/);
+  expect(() => t.spawnParallel([t], { timeout: 10 })).toThrow(/"timeout" is only supported for exec steps/);
+});
+
+test('environment files are rendered to the manifest', () => {
+  const p = new TestProject();
+
+  // WHEN
+  p.tasks.addEnvFile('.env');
+  p.addTask('deploy', { envFiles: ['deploy.env'] }).addEnvFile('secrets.env');
+
+  // THEN
+  expectManifest(p, {
+    envFiles: ['.env'],
+    tasks: {
+      deploy: {
+        name: 'deploy',
+        envFiles: ['deploy.env', 'secrets.env'],
+      },
+    },
+  });
+});
+
+test('"inputs" and "outputs" are rendered to the manifest', () => {
+  const p = new TestProject();
+
+  // WHEN
+  const t = p.addTask('compile', { inputs: ['src/**/*.ts'] });
+  t.addInputs('tsconfig.json');
+  t.addOutputs('lib/**');
+
+  // THEN
+  expectManifest(p, {
+    tasks: {
+      compile: {
+        name: 'compile',
+        inputs: ['src/**/*.ts', 'tsconfig.json'],
+        outputs: ['lib/**'],
+      },
+    },
+  });
+});
+
 describe('toShellCommand()', () => {
 
   test('single step', () => {
@@ -387,6 +497,23 @@ describe('toShellCommand()', () => {
     ]);
   });
 
+  test('parallel subtasks are rendered sequentially', () => {
+    // GIVEN
+    const p = new TestProject();
+    const t1 = p.addTask('t1', { exec: 'echo task1' });
+    const t2 = p.addTask('t2', { exec: 'echo task2' });
+    const t3 = p.addTask('t3');
+
+    // WHEN
+    t3.spawnParallel([t1, t2]);
+
+    // THEN
+    expect(shell(t3)).toStrictEqual([
+      'task1',
+      'task2',
+    ]);
+  });
+
   test('with environment', () => {
     // GIVEN
     const p = new TestProject();
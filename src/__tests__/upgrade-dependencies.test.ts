@@ -29,6 +29,15 @@ test('custom options', () => {
   expect(snapshot['.github/workflows/upgrade-dependencies.yml']).toMatchSnapshot();
 });
 
+test('projenrc is migrated when projen is upgraded', () => {
+
+  const project = createProject();
+
+  const tasks = synthSnapshot(project)['.projen/tasks.json'].tasks;
+  expect(tasks['upgrade-projen'].steps).toContainEqual({ exec: 'npx projen migrate --no-synth' });
+  expect(tasks['upgrade-dependencies'].steps).not.toContainEqual({ exec: 'npx projen migrate --no-synth' });
+});
+
 
 function createProject(options: Omit<NodeProjectOptions, 'outdir' | 'defaultReleaseBranch' | 'name' | 'dependenciesUpgrade'> = {}): NodeProject {
   return new NodeProject({
@@ -14,7 +14,11 @@ export function cleanup(dir: string, exclude: string[]) {
   }
 }
 
-function findGeneratedFiles(dir: string, exclude: string[]) {
+/**
+ * Returns the absolute paths of all files under `dir` which include the projen
+ * marker (and are not excluded).
+ */
+export function findGeneratedFiles(dir: string, exclude: string[]) {
   const ignore = [...readGitIgnore(dir), 'node_modules/**', ...exclude, '.git/**'];
 
   const files = glob.sync('**', {
@@ -0,0 +1,82 @@
+import * as path from 'path';
+import * as fs from 'fs-extra';
+import * as yargs from 'yargs';
+import * as inventory from '../../inventory';
+import * as logging from '../../logging';
+import { TaskRuntime } from '../../tasks';
+import { addComponentToProjenrc, findComponent, installedModuleDirs, renderComponentArgs } from '../components';
+import { findProjenrcSource, isSourceRc } from '../projenrc-source';
+import { synth } from '../synth';
+
+class Command implements yargs.CommandModule {
+  public readonly command = 'add [COMPONENT] [ARGS..]';
+  public readonly describe = 'Adds a component to .projenrc.js (or .projenrc.ts) and synthesizes the project';
+
+  public builder(args: yargs.Argv) {
+    args.positional('COMPONENT', { type: 'string', desc: 'The component to add (e.g. "Gitpod" or "vscode.DevContainer"). Lists the available components if omitted' });
+    args.positional('ARGS', { type: 'string', desc: 'Values of the primitive constructor parameters of the component (e.g. the file path of a "Makefile")' });
+    args.option('options', { type: 'string', desc: 'The options of the component as JSON' });
+    args.example('projen add', 'Lists the components that can be added to the project');
+    args.example('projen add gitpod', 'Adds a Gitpod configuration to the project');
+    args.example('projen add makefile Makefile --options \'{ "all": ["build"] }\'', 'Adds a Makefile with options');
+    return args;
+  }
+
+  public async handler(args: any) {
+    const baseDir = process.cwd();
+    const moduleDirs = installedModuleDirs(baseDir);
+    const components = inventory.discoverComponents(...moduleDirs);
+
+    if (!args.COMPONENT) {
+      listComponents(components);
+      return;
+    }
+
+    const rcfile = findProjenrcSource(baseDir, args.rc);
+    if (!rcfile) {
+      throw new Error('Unable to find .projenrc.js or .projenrc.ts. Use "projen new" to create a new project.');
+    }
+    if (!isSourceRc(rcfile)) {
+      throw new Error(`Components can only be added to .projenrc.js and .projenrc.ts files, not ${path.basename(rcfile)}`);
+    }
+
+    const typescript = path.extname(rcfile) === '.ts';
+
+    // build the runtime before changing projenrc (reads .projen/tasks.json)
+    const runtime = new TaskRuntime(baseDir);
+
+    const component = findComponent(components, args.COMPONENT);
+    const source = addComponentToProjenrc(fs.readFileSync(rcfile, 'utf-8'), {
+      component,
+      args: renderComponentArgs(component, (args.ARGS ?? []).map(String), args.options),
+      typescript,
+      moduleDirs,
+    });
+
+    fs.writeFileSync(rcfile, source);
+    logging.info(`Added ${component.typename} to ${path.basename(rcfile)}`);
+
+    await synth(runtime, {
+      post: args.post,
+      rcfile: args.rc,
+    });
+  }
+}
+
+function listComponents(components: inventory.ComponentType[]) {
+  console.log('Available components:');
+  console.log();
+
+  for (const component of components) {
+    const params = component.parameters.map(p => {
+      const name = ['string', 'number', 'boolean'].includes(p.type) ? p.name : '--options';
+      return p.optional ? `[${name}]` : name;
+    });
+    console.log(`  ${[component.typename, ...params].join(' ')}`);
+    if (component.docs) {
+      console.log(`    ${component.docs}`);
+    }
+  }
+}
+
+module.exports = new Command();
@@ -0,0 +1,23 @@
+import * as yargs from 'yargs';
+import { TaskRuntime } from '../../tasks';
+import { synth } from '../synth';
+
+class Command implements yargs.CommandModule {
+  public readonly command = 'check';
+  public readonly describe = 'Synthesizes the project in memory and fails if any generated file is out of date';
+
+  public builder(args: yargs.Argv) {
+    return args.example('projen check', 'Fails with a list of files if any generated file differs from what is on disk');
+  }
+
+  public async handler(args: any) {
+    const runtime = new TaskRuntime(process.cwd());
+    await synth(runtime, {
+      post: false,
+      check: true,
+      rcfile: args.rc,
+    });
+  }
+}
+
+module.exports = new Command();
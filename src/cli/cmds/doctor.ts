@@ -0,0 +1,42 @@
+import * as chalk from 'chalk';
+import * as yargs from 'yargs';
+import { diagnose, Diagnostic } from '../doctor';
+
+const STATUS_SYMBOLS: Record<Diagnostic['status'], string> = {
+  ok: chalk.green('✔'),
+  warning: chalk.yellow('!'),
+  error: chalk.red('✖'),
+};
+
+class Command implements yargs.CommandModule {
+  public readonly command = 'doctor';
+  public readonly describe = 'Checks the local environment (Node.js, package managers, Python, Java, git) against the requirements of the project';
+
+  public builder(args: yargs.Argv) {
+    args.option('json', { type: 'boolean', default: false, desc: 'Print the results as JSON' });
+    args.example('projen doctor', 'Prints the result of each check and how to fix problems');
+    return args;
+  }
+
+  public async handler(args: any) {
+    const diagnostics = diagnose({ dir: process.cwd() });
+
+    if (args.json) {
+      console.log(JSON.stringify(diagnostics, undefined, 2));
+    } else {
+      for (const d of diagnostics) {
+        console.log(`${STATUS_SYMBOLS[d.status]} ${chalk.bold(d.check)}: ${d.message}`);
+        if (d.fix) {
+          console.log(`    ${chalk.cyan('fix:')} ${d.fix}`);
+        }
+      }
+    }
+
+    // warnings do not fail the command
+    if (diagnostics.some(d => d.status === 'error')) {
+      process.exitCode = 1;
+    }
+  }
+}
+
+module.exports = new Command();
@@ -0,0 +1,29 @@
+import * as yargs from 'yargs';
+import * as logging from '../../logging';
+import { TaskRuntime } from '../../tasks';
+import { synth } from '../synth';
+
+class Command implements yargs.CommandModule {
+  public readonly command = 'eject';
+  public readonly describe = 'Synthesizes the project one last time and removes projen from it';
+
+  public builder(args: yargs.Argv) {
+    return args.example('projen eject', 'Writes all generated files without projen markers, renders tasks as npm scripts and removes .projenrc.js, .projen/ and the projen dependency');
+  }
+
+  public async handler(args: any) {
+    const runtime = new TaskRuntime(process.cwd());
+
+    // picked up by the project (see `Project.ejected`)
+    process.env.PROJEN_EJECTING = 'true';
+
+    await synth(runtime, {
+      post: args.post,
+      rcfile: args.rc,
+    });
+
+    logging.info('Project ejected. Generated files can now be edited directly.');
+  }
+}
+
+module.exports = new Command();
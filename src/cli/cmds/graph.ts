@@ -0,0 +1,31 @@
+import * as yargs from 'yargs';
+import * as logging from '../../logging';
+import { TaskRuntime } from '../../tasks';
+import { TaskGraph } from '../../tasks/graph';
+
+class Command implements yargs.CommandModule {
+  public readonly command = 'graph [task]';
+  public readonly describe = 'Renders the task dependency graph';
+
+  public builder(args: yargs.Argv) {
+    args.positional('task', { type: 'string', desc: 'Only render the subtasks of this task' });
+    args.option('format', { type: 'string', choices: ['dot', 'mermaid'], default: 'dot', desc: 'Output format' });
+    args.example('projen graph build | dot -Tsvg > build.svg', 'Renders the subtasks of "build" as an SVG image using Graphviz');
+    args.example('projen graph --format mermaid', 'Renders all tasks as a Mermaid flowchart');
+    return args;
+  }
+
+  public async handler(args: any) {
+    const runtime = new TaskRuntime(process.cwd());
+    const graph = new TaskGraph(runtime.manifest, args.task);
+
+    const cycle = graph.findCycle();
+    if (cycle) {
+      logging.warn(`tasks form a cycle: ${cycle.join(' » ')}`);
+    }
+
+    process.stdout.write(args.format === 'mermaid' ? graph.toMermaid() : graph.toDot());
+  }
+}
+
+module.exports = new Command();
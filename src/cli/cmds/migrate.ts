@@ -0,0 +1,67 @@
+import * as path from 'path';
+import * as fs from 'fs-extra';
+import * as yargs from 'yargs';
+import * as logging from '../../logging';
+import { TaskRuntime } from '../../tasks';
+import { installedModuleDirs } from '../components';
+import { migrateProjenrc } from '../migrations';
+import { findProjenrcSource, isSourceRc } from '../projenrc-source';
+import { synth } from '../synth';
+
+class Command implements yargs.CommandModule {
+  public readonly command = 'migrate';
+  public readonly describe = 'Updates .projenrc.js (or .projenrc.ts) for changes in projen, such as renamed options';
+
+  public builder(args: yargs.Argv) {
+    args.option('synth', { type: 'boolean', default: true, desc: 'Synthesize the project if projenrc was changed' });
+    args.example('projen migrate', 'Applies all migrations to projenrc and reports the changes');
+    args.example('projen migrate --dry-run', 'Shows the changes of all migrations without changing projenrc');
+    return args;
+  }
+
+  public async handler(args: any) {
+    const baseDir = process.cwd();
+    const rcfile = findProjenrcSource(baseDir, args.rc);
+
+    // other kinds of projenrc files are not migrated, which is not an error
+    // since this command also runs whenever projen is upgraded
+    if (!rcfile || !isSourceRc(rcfile)) {
+      logging.info('No .projenrc.js or .projenrc.ts file to migrate');
+      return;
+    }
+
+    const runtime = new TaskRuntime(baseDir);
+    const filename = path.basename(rcfile);
+    const result = migrateProjenrc(fs.readFileSync(rcfile, 'utf-8'), {
+      moduleDirs: installedModuleDirs(baseDir),
+    });
+
+    for (const warning of result.warnings) {
+      logging.warn(`${filename}, ${warning}`);
+    }
+
+    if (result.changes.length === 0) {
+      logging.info(`${filename} is up to date`);
+      return;
+    }
+
+    for (const change of result.changes) {
+      logging.info(`${filename}, ${change}`);
+    }
+
+    if (args.dryRun) {
+      return;
+    }
+
+    fs.writeFileSync(rcfile, result.source);
+
+    if (args.synth) {
+      await synth(runtime, {
+        post: args.post,
+        rcfile: args.rc,
+      });
+    }
+  }
+}
+
+module.exports = new Command();
@@ -5,11 +5,15 @@ import * as fs from 'fs-extra';
 import * as inquirer from 'inquirer';
 import * as yargs from 'yargs';
 import * as inventory from '../../inventory';
-import { renderJavaScriptOptions } from '../../javascript/render-options';
+import { renderProjectOptions } from '../../javascript/render-options';
 import * as logging from '../../logging';
 import { NewProjectOptionHints } from '../../option-hints';
+import { TaskRuntime } from '../../tasks';
 import { exec, execOrUndefined } from '../../util';
+import { promptOptions } from '../interactive';
 import { tryProcessMacro } from '../macros';
+import { synth } from '../synth';
+import { copyTemplate, withTemplate } from '../template';
 
 class Command implements yargs.CommandModule {
   public readonly command = 'new [PROJECT-TYPE] [OPTIONS]';
@@ -19,9 +23,13 @@ class Command implements yargs.CommandModule {
     args.positional('PROJECT-TYPE', { describe: 'optional only when --from is used and there is a single project type in the external module', type: 'string' });
     args.option('synth', { type: 'boolean', default: true, desc: 'Synthesize after creating .projenrc.js' });
     args.option('comments', { type: 'boolean', default: true, desc: 'Include commented out options in .projenrc.js (use --no-comments to disable)' });
-    args.option('from', { type: 'string', alias: 'f', desc: 'External jsii npm module to create project from. Supports any package spec supported by yarn (such as "my-pack@^2.0")' });
+    args.option('interactive', { type: 'boolean', default: false, desc: 'Ask for the values of required and featured options which are not specified as switches' });
+    args.option('from', { type: 'string', alias: 'f', desc: 'External jsii npm module to create project from. Supports any package spec supported by yarn (such as "my-pack@^2.0"). Can also be a git URL (optionally pinned to a ref with "#ref") or a local directory of a project template with a projenrc file' });
     args.example('projen new awscdk-app-ts', 'Creates a new project of built-in type "awscdk-app-ts"');
+    args.example('projen new typescript --interactive', 'Walks through the most important options of "typescript" projects');
+    args.example('projen new typescript --deps axios --deps yaml --tsconfig \'{ "compilerOptions": { "strict": false } }\'', 'Specifies list and struct options');
     args.example('projen new --from projen-vue@^2', 'Creates a new project from an external module "projen-vue" with the specified version');
+    args.example('projen new --from https://github.com/acme/starter.git#v1.0.0', 'Creates a new project from a template in a git repository at tag "v1.0.0"');
 
     for (const type of inventory.discover()) {
       args.command(type.pjid, type.docs ?? '', {
@@ -29,12 +37,19 @@ class Command implements yargs.CommandModule {
           cargs.showHelpOnFail(true);
 
           for (const option of type.options ?? []) {
-            if (option.type !== 'string' && option.type !== 'number' && option.type !== 'boolean' && option.kind !== 'enum') {
-              continue; // we only support primitive and enum fields as command line options
+            const switchType = switchTypeOf(option);
+            if (!switchType) {
+              continue; // e.g. class instances cannot be specified on the command line
             }
 
             let desc = [option.docs?.replace(/\ *\.$/, '') ?? ''];
 
+            if (switchType === 'json') {
+              desc.push('(JSON)');
+            } else if (switchType === 'array') {
+              desc.push('(repeatable or a JSON array)');
+            }
+
             const required = !option.optional;
             let defaultValue;
 
@@ -49,11 +64,12 @@ class Command implements yargs.CommandModule {
               }
             }
 
-            const argType = option.kind === 'enum' ? 'string' : option.type;
+            const argType = switchType === 'primitive' && option.kind !== 'enum' ? option.type : 'string';
 
             cargs.option(option.switch, {
               group: required ? 'Required:' : 'Optional:',
               type: (argType as 'string' | 'boolean' | 'number'),
+              array: switchType === 'array',
               description: desc.join(' '),
               default: defaultValue,
               required,
@@ -73,7 +89,15 @@ class Command implements yargs.CommandModule {
     // handle --from which means we want to first install a jsii module and then
     // create a project defined within this module.
     if (args.from) {
-      return newProjectFromModule(process.cwd(), args.from, args);
+      const baseDir = process.cwd();
+
+      // git repositories and local directories with a projenrc file are
+      // project templates
+      if (await withTemplate(baseDir, args.from, templateDir => newProjectFromTemplate(baseDir, templateDir, args))) {
+        return;
+      }
+
+      return newProjectFromModule(baseDir, args.from, args);
     }
 
     // project type is defined but was not matched by yargs, so print the list of supported types
@@ -150,7 +174,7 @@ function createProject(opts: CreateProjectOptions) {
 
   // pass the FQN of the project type to the project initializer so it can
   // generate the projenrc file.
-  const { renderedOptions } = renderJavaScriptOptions({
+  const { renderedOptions } = renderProjectOptions({
     bootstrap: true,
     comments: opts.comments,
     type: opts.type,
@@ -207,7 +231,7 @@ function commandLineToProps(type: inventory.ProjectType, argv: Record<string, un
             break;
           }
           if (queue.length === 0) {
-            curr[p] = value;
+            curr[p] = parseSwitch(prop, value);
           } else {
             curr[p] = curr[p] ?? {};
             curr = curr[p];
@@ -220,6 +244,86 @@ function commandLineToProps(type: inventory.ProjectType, argv: Record<string, un
   return props;
 }
 
+/**
+ * Returns how an option is specified on the command line:
+ *
+ * - "primitive" - strings, numbers, booleans and enums (by the name of the member)
+ * - "array" - lists of strings or numbers as repeatable switches (or a JSON array)
+ * - "json" - structs, maps and any other lists as JSON
+ *
+ * Returns `undefined` for options which cannot be specified on the command line.
+ */
+function switchTypeOf(option: inventory.ProjectOption): 'primitive' | 'array' | 'json' | undefined {
+  if (['string', 'number', 'boolean'].includes(option.type) || option.kind === 'enum') {
+    return 'primitive';
+  }
+
+  if (option.collection) {
+    const elementType = option.collection.elementtype.primitive;
+    const primitiveElements = elementType === 'string' || elementType === 'number';
+    return option.collection.kind === 'array' && primitiveElements ? 'array' : 'json';
+  }
+
+  if (['json', 'any'].includes(option.type) || option.kind === 'interface') {
+    return 'json';
+  }
+
+  return undefined;
+}
+
+/**
+ * Converts the value of a command line switch to the value of the option and
+ * validates it against the jsii type of the option.
+ */
+function parseSwitch(option: inventory.ProjectOption, value: any) {
+  const switchType = switchTypeOf(option);
+  if (switchType === 'primitive' || value === undefined) {
+    return value; // already converted (and validated) by yargs
+  }
+
+  const parseJson = (json: string) => {
+    try {
+      return JSON.parse(json);
+    } catch (e) {
+      throw new Error(`Invalid JSON for --${option.switch}: ${e.message}`);
+    }
+  };
+
+  let result;
+  if (switchType === 'array') {
+    // either repeated (--deps foo --deps bar) or a JSON array (--deps '["foo","bar"]')
+    // (yargs yields `[undefined]` for array switches which are not specified)
+    const values: string[] = (Array.isArray(value) ? value : [value]).filter(v => v !== undefined).map(String);
+    if (values.length === 0) {
+      return undefined;
+    } else if (values.length === 1 && values[0].trim().startsWith('[')) {
+      result = parseJson(values[0]);
+    } else {
+      // elements which are not numbers are rejected by the validation below
+      result = option.collection?.elementtype.primitive === 'number'
+        ? values.map(v => v.trim() === '' ? NaN : Number(v))
+        : values;
+    }
+  } else {
+    result = typeof value === 'string' ? parseJson(value) : value;
+  }
+
+  const error = inventory.validateOptionValue(option, result);
+  if (error) {
+    throw new Error(`Invalid value for --${option.switch}: ${error}`);
+  }
+
+  return result;
+}
+
+/**
+ * Indicates if a command line switch was specified explicitly (as opposed to
+ * assigned a default value).
+ */
+function isSwitchSpecified(name: string) {
+  return process.argv.some(arg => arg === `--${name}` || arg === `--no-${name}` || arg.startsWith(`--${name}=`));
+}
+
 /**
  * Generates a new project from an external module.
  *
@@ -254,23 +358,8 @@ async function newProjectFromModule(baseDir: string, spec: string, args: any) {
     throw new Error(`Project type ${requested} not found. Found ${types.join(',')}`);
   }
 
-  for (const option of type.options ?? []) {
-    if (option.type !== 'string' && option.type !== 'number' && option.type !== 'boolean') {
-      continue; // we don't support non-primitive fields as command line options
-    }
-
-    if (args[option.name] !== undefined) {
-      continue; // do not overwrite passed arguments
-    }
-
-    if (option.default && option.default !== 'undefined') {
-      if (!option.optional) {
-        const defaultValue = renderDefault(option.default);
-        args[option.name] = defaultValue;
-        args[option.switch] = defaultValue;
-      }
-    }
-  }
+  // like for built-in project types, the defaults of all options (including
+  // lists, maps and structs) are applied by `commandLineToProps()`.
 
   // include a dev dependency for the external module
   await newProject(baseDir, type, args, {
@@ -286,7 +375,12 @@ async function newProjectFromModule(baseDir: string, spec: string, args: any) {
  */
 async function newProject(baseDir: string, type: inventory.ProjectType, args: any, additionalProps?: Record<string, any>) {
   // convert command line arguments to project props using type information
-  const props = commandLineToProps(type, args);
+  let props = commandLineToProps(type, args);
+
+  // ask for the options which were not specified on the command line
+  if (args.interactive) {
+    props = await promptOptions(type, props, option => isSwitchSpecified(option.switch));
+  }
 
   // merge in additional props if specified
   for (const [k, v] of Object.entries(additionalProps ?? {})) {
@@ -302,6 +396,32 @@ async function newProject(baseDir: string, type: inventory.ProjectType, args: an
     post: args.post,
   });
 
+  await setUpGitRepository(baseDir);
+}
+
+/**
+ * Generates a new project from a project template (a directory with a projenrc
+ * file and sample files).
+ *
+ * @param templateDir The template directory
+ * @param args Command line arguments
+ */
+async function newProjectFromTemplate(baseDir: string, templateDir: string, args: any) {
+  copyTemplate(templateDir, baseDir);
+  logging.info(`Project was created from template ${args.from}`);
+
+  if (args.synth) {
+    await synth(new TaskRuntime(baseDir), { post: args.post });
+  }
+
+  await setUpGitRepository(baseDir);
+}
+
+/**
+ * Offers to set up a git repository (and a GitHub repository) if the project
+ * directory is not a git repository.
+ */
+async function setUpGitRepository(baseDir: string) {
   // interactive git and github setup
   const gitFolder = path.resolve(baseDir, '.git');
   let pushInitialToGithub = false;
@@ -0,0 +1,42 @@
+import * as yargs from 'yargs';
+import * as inventory from '../../inventory';
+import { resolveModuleDir } from '../projenrc-json';
+
+class Command implements yargs.CommandModule {
+  public readonly command = 'schema [TYPE]';
+  public readonly describe = 'Prints the JSON Schema of the options of a project type';
+
+  public builder(args: yargs.Argv) {
+    args.positional('TYPE', { type: 'string', desc: 'Project type ID (e.g. "typescript") or jsii FQN. If not specified, prints a schema for declarative projenrc files of all built-in project types' });
+    args.example('projen schema typescript > schema.json', 'Writes the JSON Schema of the options of TypeScriptProject');
+    args.example('projen schema my-module.MyProject', 'Prints the JSON Schema of a project type from a module installed in the current directory');
+    return args;
+  }
+
+  public async handler(args: any) {
+    const type: string | undefined = args.TYPE;
+
+    let schema;
+    if (type) {
+      const moduleName = type.includes('.') ? type.split('.')[0] : 'projen';
+      const moduleDirs = moduleName === 'projen' ? [] : [resolveModuleDir(moduleName, process.cwd())];
+      const projectType = inventory.discover(...moduleDirs).find(t => t.pjid === type || t.fqn === type);
+      if (!projectType) {
+        throw new Error(`unknown project type: ${type}`);
+      }
+
+      schema = inventory.renderProjectSchema(projectType);
+    } else {
+      // the "type" of each schema is a constant, so exactly one of them matches
+      const schemas = inventory.discover().map(t => inventory.renderProjectSchema(t));
+      schema = {
+        $schema: 'http://json-schema.org/draft-07/schema#',
+        oneOf: schemas.map(({ $schema, ...s }) => ({ ...s, required: ['type', ...s.required ?? []] })),
+      };
+    }
+
+    process.stdout.write(`${JSON.stringify(schema, undefined, 2)}\n`);
+  }
+}
+
+module.exports = new Command();
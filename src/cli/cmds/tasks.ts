@@ -0,0 +1,32 @@
+import * as yargs from 'yargs';
+import { TaskRuntime } from '../../tasks';
+import { ResolvedTask, resolveTask } from '../tasks';
+import { printStartMenu } from './start-app';
+
+class Command implements yargs.CommandModule {
+  public readonly command = 'tasks';
+  public readonly describe = 'Lists all project tasks';
+
+  public builder(args: yargs.Argv) {
+    args.option('json', { type: 'boolean', desc: 'Print the tasks (including their steps and subtasks) as JSON', default: false });
+    args.example('projen tasks --json', 'Prints all tasks as JSON, keyed by name');
+    return args;
+  }
+
+  public async handler(args: any) {
+    const runtime = new TaskRuntime(process.cwd());
+    if (!args.json) {
+      printStartMenu(runtime);
+      return;
+    }
+
+    const tasks: { [name: string]: ResolvedTask } = {};
+    for (const task of runtime.tasks.sort((a, b) => a.name.localeCompare(b.name))) {
+      tasks[task.name] = resolveTask(runtime, task.name);
+    }
+
+    console.log(JSON.stringify(tasks, undefined, 2));
+  }
+}
+
+module.exports = new Command();
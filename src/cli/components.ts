@@ -0,0 +1,254 @@
+import * as path from 'path';
+import * as fs from 'fs-extra';
+import * as inventory from '../inventory';
+import { toJavaScriptValue } from '../javascript/render-options';
+import { findNewExpressions } from './projenrc-source';
+
+/**
+ * Returns the directories of the npm modules installed in a directory.
+ */
+export function installedModuleDirs(dir: string) {
+  const modulesDir = path.join(dir, 'node_modules');
+  if (!fs.existsSync(modulesDir)) {
+    return [];
+  }
+
+  return fs.readdirSync(modulesDir).map(file => path.join(modulesDir, file));
+}
+
+/**
+ * Finds a component by name: its jsii FQN (e.g. "projen.vscode.DevContainer"),
+ * its type name (e.g. "vscode.DevContainer") or its class name (e.g.
+ * "DevContainer"). Names are case-insensitive.
+ */
+export function findComponent(components: inventory.ComponentType[], name: string) {
+  const lower = name.toLowerCase();
+
+  const exact = components.filter(c => c.fqn.toLowerCase() === lower || c.typename.toLowerCase() === lower);
+  const matches = exact.length > 0 ? exact : components.filter(c => c.typename.split('.').pop()!.toLowerCase() === lower);
+
+  if (matches.length === 0) {
+    throw new Error(`Unknown component "${name}". Run "projen add" to list the available components`);
+  }
+  if (matches.length > 1) {
+    throw new Error(`Component name "${name}" is ambiguous. Use one of: ${matches.map(c => c.fqn).join(', ')}`);
+  }
+
+  return matches[0];
+}
+
+/**
+ * Renders the constructor arguments of a component (after the scope) as
+ * JavaScript. Primitive parameters are specified as positional command line
+ * arguments and the options struct as JSON.
+ *
+ * @param component The component type
+ * @param positional The values of the primitive parameters
+ * @param options The options struct as JSON
+ */
+export function renderComponentArgs(component: inventory.ComponentType, positional: string[], options?: string) {
+  const primitives = component.parameters.filter(p => isPrimitive(p.type));
+  const struct = component.parameters.find(p => !isPrimitive(p.type));
+
+  if (positional.length > primitives.length) {
+    throw new Error(`${component.typename} accepts ${primitives.length} argument(s) but ${positional.length} were specified`);
+  }
+
+  const result = new Array<string>();
+
+  for (const [i, param] of primitives.entries()) {
+    const arg = positional[i];
+    if (arg === undefined) {
+      if (!param.optional) {
+        throw new Error(`${component.typename} requires the "${param.name}" argument${param.docs ? ` (${param.docs})` : ''}`);
+      }
+      continue;
+    }
+
+    let value: any = arg;
+    if (param.type === 'number') {
+      value = Number(arg);
+      if (isNaN(value)) {
+        throw new Error(`"${param.name}" must be a number`);
+      }
+    } else if (param.type === 'boolean') {
+      if (arg !== 'true' && arg !== 'false') {
+        throw new Error(`"${param.name}" must be "true" or "false"`);
+      }
+      value = arg === 'true';
+    }
+
+    result.push(toJavaScriptValue(value));
+  }
+
+  if (struct) {
+    if (options === undefined && struct.optional) {
+      return result;
+    }
+
+    let value;
+    try {
+      value = options === undefined ? {} : JSON.parse(options);
+    } catch (e) {
+      throw new Error(`Invalid JSON for --options: ${e.message}`);
+    }
+
+    const error = inventory.validateValue(value, { fqn: struct.type }, struct.name);
+    if (error) {
+      throw new Error(`Invalid options for ${component.typename}: ${error}`);
+    }
+
+    result.push(toJavaScriptValue(value));
+  } else if (options !== undefined) {
+    throw new Error(`${component.typename} does not accept options`);
+  }
+
+  return result;
+}
+
+/**
+ * Options for `addComponentToProjenrc`.
+ */
+export interface AddComponentOptions {
+  /**
+   * The component type.
+   */
+  readonly component: inventory.ComponentType;
+
+  /**
+   * The rendered constructor arguments after the scope (see
+   * `renderComponentArgs`).
+   */
+  readonly args: string[];
+
+  /**
+   * Whether the projenrc file is written in TypeScript.
+   */
+  readonly typescript: boolean;
+
+  /**
+   * Directories of npm modules with project types and components.
+   */
+  readonly moduleDirs?: string[];
+}
+
+/**
+ * Adds a component to the source of a .projenrc.js or .projenrc.ts file. The
+ * component is imported and created right before `project.synth()`.
+ *
+ * @returns the updated source
+ */
+export function addComponentToProjenrc(source: string, options: AddComponentOptions) {
+  const { component, typescript } = options;
+  const moduleDirs = options.moduleDirs ?? [];
+
+  const types = inventory.discover(...moduleDirs);
+  const project = findProject(source, types);
+  if (!project) {
+    throw new Error('Unable to find the project in projenrc (e.g. "const project = new TypeScriptProject({ ... })")');
+  }
+  const { projectVar, projectClass } = project;
+
+  const synthCall = new RegExp(`^([ \\t]*)${projectVar}\\.synth\\(\\);?[ \\t]*$`, 'm').exec(source);
+  if (!synthCall) {
+    throw new Error(`Unable to find "${projectVar}.synth()" in projenrc`);
+  }
+
+  // projects defined in projenrc itself are assumed to extend projen.Project
+  const projectFqn = project.projectType?.fqn ?? 'projen.Project';
+
+  const scope = inventory.resolveComponentScope(projectFqn, component.scope, ...moduleDirs);
+  if (!scope) {
+    throw new Error(`${component.typename} must be added to a ${component.scope}, which is not available in ${projectClass}`);
+  }
+
+  let scopeExpression = projectVar;
+  if (scope.property) {
+    scopeExpression = `${projectVar}.${scope.property}${scope.optional && typescript ? '!' : ''}`;
+  }
+
+  // submodule components are imported through their submodule (e.g. `vscode.DevContainer`)
+  const importName = component.typename.split('.')[0];
+  const indent = synthCall[1];
+  let statement = `new ${component.typename}(${[scopeExpression, ...options.args].join(', ')});`;
+
+  // optional scopes (e.g. `project.github`) are not available in all projects
+  if (scope.optional && !typescript) {
+    statement = `if (${scopeExpression}) {\n${indent}  ${statement}\n${indent}}`;
+  }
+
+  const withComponent = [
+    source.slice(0, synthCall.index).replace(/\s*$/, ''),
+    `\n\n${indent}${statement}\n\n`,
+    source.slice(synthCall.index),
+  ].join('');
+
+  return addImport(withComponent, component.moduleName, importName, typescript);
+}
+
+/**
+ * Finds the project in the source of a projenrc file: the first `new X(...)`
+ * expression of a project type which is assigned to a variable or, for
+ * project types defined in projenrc itself, the one assigned to the variable
+ * whose `synth()` is called.
+ */
+function findProject(source: string, types: inventory.ProjectType[]) {
+  const assignments = new Array<{ projectVar: string; projectClass: string; projectType?: inventory.ProjectType }>();
+  for (const expr of findNewExpressions(source)) {
+    const assignment = /(?:const|let|var)\s+(\w+)\s*(?::\s*[\w.]+\s*)?=\s*$/.exec(source.slice(0, expr.start));
+    if (assignment) {
+      assignments.push({ projectVar: assignment[1], projectClass: expr.className });
+    }
+  }
+
+  for (const assignment of assignments) {
+    const projectType = types.find(t => t.typename === assignment.projectClass);
+    if (projectType) {
+      return { ...assignment, projectType };
+    }
+  }
+
+  return assignments.find(a => new RegExp(`^[ \\t]*${a.projectVar}\\.synth\\(`, 'm').test(source));
+}
+
+/**
+ * Adds a named import to a JavaScript (`require()`) or TypeScript (`import`)
+ * source file, either to an existing import of the module or as a new import
+ * after the last import.
+ */
+function addImport(source: string, moduleName: string, name: string, typescript: boolean) {
+  const moduleRegex = moduleName.replace(/[.*+?^${}()|[\]\\\/]/g, '\\$&');
+  const existing = typescript
+    ? new RegExp(`^import\\s*\\{([^}]*)\\}\\s*from\\s*['"]${moduleRegex}['"];?`, 'm').exec(source)
+    : new RegExp(`^const\\s*\\{([^}]*)\\}\\s*=\\s*require\\(['"]${moduleRegex}['"]\\);?`, 'm').exec(source);
+
+  if (existing) {
+    const names = existing[1].split(',').map(n => n.trim()).filter(n => n);
+    if (names.includes(name)) {
+      return source;
+    }
+
+    const statement = existing[0].replace(existing[1], ` ${[...names, name].sort().join(', ')} `);
+    return source.slice(0, existing.index) + statement + source.slice(existing.index + existing[0].length);
+  }
+
+  const statement = typescript
+    ? `import { ${name} } from '${moduleName}';`
+    : `const { ${name} } = require('${moduleName}');`;
+
+  const lines = source.split('\n');
+  const importLine = typescript ? /^import\s/ : /^const\s.*=\s*require\(/;
+  let lastImport = -1;
+  lines.forEach((line, i) => {
+    if (importLine.test(line)) {
+      lastImport = i;
+    }
+  });
+
+  lines.splice(lastImport + 1, 0, statement);
+  return lines.join('\n');
+}
+
+function isPrimitive(type: string) {
+  return ['string', 'number', 'boolean'].includes(type);
+}
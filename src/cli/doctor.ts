@@ -0,0 +1,370 @@
+import * as path from 'path';
+import * as fs from 'fs-extra';
+import * as semver from 'semver';
+import { PROJENRC_FILES } from '../common';
+import { Dependencies } from '../deps';
+import { Tasks, TaskSpec, TasksManifest } from '../tasks';
+import { execOrUndefined } from '../util';
+
+/**
+ * The result of a single check of `projen doctor`.
+ */
+export interface Diagnostic {
+  /**
+   * The area of the check (e.g. "node", "git").
+   */
+  readonly check: string;
+
+  /**
+   * "ok", "warning" (things may work, but are likely to break) or "error".
+   */
+  readonly status: 'ok' | 'warning' | 'error';
+
+  /**
+   * What was found.
+   */
+  readonly message: string;
+
+  /**
+   * How to fix the problem (for warnings and errors).
+   */
+  readonly fix?: string;
+}
+
+/**
+ * Options for `diagnose`.
+ */
+export interface DiagnoseOptions {
+  /**
+   * The project directory.
+   */
+  readonly dir: string;
+
+  /**
+   * Executes a command in the project directory and returns its output (or
+   * `undefined` if it fails).
+   *
+   * @default - `execOrUndefined`
+   */
+  readonly exec?: (command: string) => string | undefined;
+
+  /**
+   * The version of Node.js.
+   *
+   * @default process.version
+   */
+  readonly nodeVersion?: string;
+}
+
+const LOCK_FILES: Record<string, string> = {
+  yarn: 'yarn.lock',
+  npm: 'package-lock.json',
+  pnpm: 'pnpm-lock.yaml',
+};
+
+/**
+ * Checks the local toolchain against the requirements of the project in a
+ * directory. The requirements are read from the files projen synthesized
+ * (e.g. `engines` in package.json and the commands in .projen/tasks.json), so
+ * this also works for projects which cannot be synthesized.
+ */
+export function diagnose(options: DiagnoseOptions): Diagnostic[] {
+  const ctx: DoctorContext = {
+    dir: options.dir,
+    exec: options.exec ?? (command => execOrUndefined(command, { cwd: options.dir })),
+    nodeVersion: options.nodeVersion ?? process.version,
+    tasks: readJson(path.join(options.dir, Tasks.MANIFEST_FILE)),
+    packageJson: readJson(path.join(options.dir, 'package.json')),
+  };
+
+  return [
+    ...checkNode(ctx),
+    ...checkPackageManager(ctx),
+    ...checkPython(ctx),
+    ...checkJava(ctx),
+    ...checkGit(ctx),
+    ...checkManifests(ctx),
+  ];
+}
+
+interface DoctorContext {
+  readonly dir: string;
+  readonly exec: (command: string) => string | undefined;
+  readonly nodeVersion: string;
+  readonly tasks?: TasksManifest;
+  readonly packageJson?: any;
+}
+
+function checkNode(ctx: DoctorContext): Diagnostic[] {
+  const range = ctx.packageJson?.engines?.node;
+  if (!range) {
+    return [ok('node', `Node.js ${ctx.nodeVersion}`)];
+  }
+
+  if (!semver.validRange(range)) {
+    return [{
+      check: 'node',
+      status: 'warning',
+      message: `"engines.node" in package.json is not a valid version range: ${range}`,
+      fix: 'Check "minNodeVersion" and "maxNodeVersion" in projenrc',
+    }];
+  }
+
+  if (!semver.satisfies(ctx.nodeVersion, range)) {
+    const min = semver.minVersion(range);
+    return [{
+      check: 'node',
+      status: 'error',
+      message: `Node.js ${ctx.nodeVersion} does not satisfy "${range}" (minNodeVersion/maxNodeVersion)`,
+      fix: `Install a version of Node.js which satisfies "${range}"${min ? ` (e.g. "nvm install ${min.version}")` : ''}`,
+    }];
+  }
+
+  return [ok('node', `Node.js ${ctx.nodeVersion} satisfies "${range}"`)];
+}
+
+function checkPackageManager(ctx: DoctorContext): Diagnostic[] {
+  if (!ctx.packageJson) {
+    return [];
+  }
+
+  const packageManager = detectPackageManager(ctx);
+  const result = new Array<Diagnostic>();
+
+  const version = ctx.exec(`${packageManager} --version`);
+  if (!version) {
+    result.push({
+      check: 'package manager',
+      status: 'error',
+      message: `${packageManager} is not installed`,
+      fix: packageManager === 'npm'
+        ? 'Reinstall Node.js (npm is installed with it)'
+        : `Install ${packageManager} ("npm install -g ${packageManager}")`,
+    });
+  } else {
+    result.push(ok('package manager', `${packageManager} ${version}`));
+  }
+
+  for (const [other, lockFile] of Object.entries(LOCK_FILES)) {
+    if (other !== packageManager && fs.existsSync(path.join(ctx.dir, lockFile))) {
+      result.push({
+        check: 'package manager',
+        status: 'warning',
+        message: `${lockFile} exists but the project uses ${packageManager} ("packageManager" option)`,
+        fix: `Delete ${lockFile}`,
+      });
+    }
+  }
+
+  return result;
+}
+
+/**
+ * The package manager is determined by the install commands of the tasks
+ * (e.g. "upgrade-dependencies") and otherwise by the lock file.
+ */
+function detectPackageManager(ctx: DoctorContext) {
+  for (const command of taskCommands(ctx)) {
+    const install = /^(yarn) install\b|^(npm) (?:ci|install)\b|^(pnpm) i\b/.exec(command);
+    if (install) {
+      return install[1] ?? install[2] ?? install[3];
+    }
+  }
+
+  for (const [packageManager, lockFile] of Object.entries(LOCK_FILES)) {
+    if (fs.existsSync(path.join(ctx.dir, lockFile))) {
+      return packageManager;
+    }
+  }
+
+  return 'yarn'; // the default of `NodePackageOptions.packageManager`
+}
+
+function checkPython(ctx: DoctorContext): Diagnostic[] {
+  const virtualEnv: string | undefined = ctx.tasks?.env?.VIRTUAL_ENV;
+  const pythonFiles = ['requirements.txt', 'requirements-dev.txt', 'setup.py', 'pyproject.toml'];
+  if (!virtualEnv && !pythonFiles.some(f => fs.existsSync(path.join(ctx.dir, f)))) {
+    return [];
+  }
+
+  const result = new Array<Diagnostic>();
+
+  const python = ctx.exec('python --version');
+  if (!python) {
+    result.push({
+      check: 'python',
+      status: 'error',
+      message: 'python is not installed',
+      fix: 'Install Python 3 (https://www.python.org/downloads/) and make sure "python" is on the PATH',
+    });
+  } else {
+    result.push(ok('python', python));
+  }
+
+  if (virtualEnv?.includes('poetry') || fs.existsSync(path.join(ctx.dir, 'poetry.toml'))) {
+    const poetry = ctx.exec('poetry --version');
+    result.push(poetry ? ok('python', poetry) : {
+      check: 'python',
+      status: 'error',
+      message: 'poetry is not installed',
+      fix: 'Install poetry (https://python-poetry.org/docs/)',
+    });
+
+    return result;
+  }
+
+  // venv: "$(echo $PWD/.env)"
+  const envdir = /\$PWD\/([^)\s]+)/.exec(virtualEnv ?? '')?.[1];
+  if (envdir) {
+    result.push(fs.existsSync(path.join(ctx.dir, envdir)) ? ok('python', `virtual environment in ${envdir}`) : {
+      check: 'python',
+      status: 'warning',
+      message: `the virtual environment ${envdir} does not exist`,
+      fix: `Run projen to create it (or "python -m venv ${envdir}")`,
+    });
+  }
+
+  return result;
+}
+
+function checkJava(ctx: DoctorContext): Diagnostic[] {
+  const pomFile = path.join(ctx.dir, 'pom.xml');
+  if (!fs.existsSync(pomFile)) {
+    return [];
+  }
+
+  const result = new Array<Diagnostic>();
+
+  const maven = ctx.exec('mvn --version')?.split('\n')[0];
+  result.push(maven ? ok('java', maven) : {
+    check: 'java',
+    status: 'error',
+    message: 'Maven is not installed',
+    fix: 'Install Maven (https://maven.apache.org/install.html) and make sure "mvn" is on the PATH',
+  });
+
+  // "java -version" prints to stderr
+  const java = ctx.exec('java -version 2>&1');
+  const version = /version "([^"]+)"/.exec(java ?? '')?.[1];
+  if (!version) {
+    result.push({
+      check: 'java',
+      status: 'error',
+      message: 'the JDK is not installed',
+      fix: 'Install a JDK (e.g. https://adoptium.net) and make sure "java" is on the PATH',
+    });
+    return result;
+  }
+
+  const required = /<source>([\d.]+)<\/source>/.exec(fs.readFileSync(pomFile, 'utf-8'))?.[1];
+  if (required && javaMajorVersion(version) < javaMajorVersion(required)) {
+    result.push({
+      check: 'java',
+      status: 'error',
+      message: `JDK ${version} cannot compile Java ${required} sources (maven-compiler-plugin "source" in pom.xml)`,
+      fix: `Install JDK ${javaMajorVersion(required)} or later`,
+    });
+  } else {
+    result.push(ok('java', `JDK ${version}`));
+  }
+
+  return result;
+}
+
+/**
+ * "1.8.0_292" is Java 8, "11.0.2" is Java 11.
+ */
+function javaMajorVersion(version: string) {
+  const [major, minor] = version.split('.').map(v => parseInt(v));
+  return major === 1 ? minor : major;
+}
+
+function checkGit(ctx: DoctorContext): Diagnostic[] {
+  if (!ctx.exec('git --version')) {
+    return [{
+      check: 'git',
+      status: 'error',
+      message: 'git is not installed',
+      fix: 'Install git (https://git-scm.com/downloads)',
+    }];
+  }
+
+  if (ctx.exec('git rev-parse --is-inside-work-tree') !== 'true') {
+    return [{
+      check: 'git',
+      status: 'warning',
+      message: 'the project is not a git repository',
+      fix: 'Run "git init"',
+    }];
+  }
+
+  const remote = ctx.exec('git remote')?.split('\n')[0];
+  if (!remote) {
+    const repository = ctx.packageJson?.repository?.url ?? '<url>';
+    return [{
+      check: 'git',
+      status: 'warning',
+      message: 'the git repository has no remote (needed for release and upgrade workflows)',
+      fix: `Run "git remote add origin ${repository}"`,
+    }];
+  }
+
+  return [ok('git', `remote "${remote}": ${ctx.exec(`git remote get-url ${remote}`) ?? ''}`.trim())];
+}
+
+function checkManifests(ctx: DoctorContext): Diagnostic[] {
+  const rcname = PROJENRC_FILES.find(f => fs.existsSync(path.join(ctx.dir, f)));
+  if (!rcname) {
+    return [{
+      check: 'manifests',
+      status: 'warning',
+      message: 'no projenrc file found',
+      fix: 'Run "projen new" to create a new project',
+    }];
+  }
+
+  const missing = [Tasks.MANIFEST_FILE, Dependencies.MANIFEST_FILE].filter(m => !fs.existsSync(path.join(ctx.dir, m)));
+  if (missing.length > 0) {
+    return missing.map(manifest => ({
+      check: 'manifests',
+      status: 'error',
+      message: `${manifest} does not exist`,
+      fix: 'Run "npx projen" to synthesize the project',
+    }));
+  }
+
+  // "projen check" synthesizes the project in memory and fails if any
+  // generated file differs (its log is written to stderr)
+  if (!ctx.exec('npx projen check 2>&1')) {
+    return [{
+      check: 'manifests',
+      status: 'warning',
+      message: `generated files are not up to date with ${rcname} (or it cannot be synthesized)`,
+      fix: 'Run "npx projen" to synthesize the project',
+    }];
+  }
+
+  return [ok('manifests', `generated files are up to date with ${rcname}`)];
+}
+
+function taskCommands(ctx: DoctorContext): string[] {
+  const tasks: TaskSpec[] = Object.values(ctx.tasks?.tasks ?? {});
+  const commands = new Array<string>();
+  for (const task of tasks) {
+    for (const step of task.steps ?? []) {
+      if (step.exec) {
+        commands.push(step.exec);
+      }
+    }
+  }
+
+  return commands;
+}
+
+function ok(check: string, message: string): Diagnostic {
+  return { check, status: 'ok', message };
+}
+
+function readJson(file: string) {
+  return fs.existsSync(file) ? fs.readJsonSync(file) : undefined;
+}
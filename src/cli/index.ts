@@ -3,24 +3,24 @@ import * as yargs from 'yargs';
 import { PROJEN_RC, PROJEN_VERSION } from '../common';
 import { TaskRuntime } from '../tasks';
 import { synth } from './synth';
-import { discoverTaskCommands } from './tasks';
+import { discoverTaskCommands, skipShadowedCommands } from './tasks';
 
 const DEFAULT_RC = resolve(PROJEN_RC);
 
 async function main() {
   const ya = yargs;
-  ya.commandDir('cmds');
-
   const runtime = new TaskRuntime('.');
+  ya.commandDir('cmds', { visit: skipShadowedCommands(runtime) });
   discoverTaskCommands(runtime, ya);
 
   ya.recommendCommands();
   ya.strictCommands();
   ya.wrap(yargs.terminalWidth());
   ya.option('post', { type: 'boolean', default: true, desc: 'Run post-synthesis steps such as installing dependencies. Use --no-post to skip' });
+  ya.option('dry-run', { type: 'boolean', default: false, desc: 'Show pending changes to generated files without writing anything' });
   ya.option('watch', { type: 'boolean', default: false, desc: 'Keep running and resynthesize when projenrc changes', alias: 'w' });
   ya.options('debug', { type: 'boolean', default: false, desc: 'Debug logs' });
-  ya.options('rc', { desc: 'path to .projenrc.js file', default: DEFAULT_RC, type: 'string' });
+  ya.options('rc', { desc: 'path to .projenrc.js file (or a declarative .projenrc.json/.projenrc.yaml file)', default: DEFAULT_RC, type: 'string' });
   ya.completion();
   ya.help();
 
@@ -44,6 +44,7 @@ async function main() {
     await synth(runtime, {
       post: args.post as boolean,
       watch: args.watch as boolean,
+      dryRun: args.dryRun as boolean,
       rcfile: args.rc as string,
     });
   }
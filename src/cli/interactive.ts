@@ -0,0 +1,173 @@
+import * as inquirer from 'inquirer';
+import * as inventory from '../inventory';
+import { tryProcessMacro } from './macros';
+
+/**
+ * Returns the options of a project type that `projen new --interactive` asks
+ * for: all required and featured options that can be specified on the command
+ * line (primitives and enums). Required options come first.
+ */
+export function interactiveOptions(type: inventory.ProjectType) {
+  const options = type.options.filter(option => !option.deprecated
+    && (option.featured || !option.optional)
+    && (['string', 'number', 'boolean'].includes(option.type) || option.kind === 'enum'));
+
+  return [
+    ...options.filter(option => !option.optional),
+    ...options.filter(option => option.optional),
+  ];
+}
+
+/**
+ * Asks for the values of the required and featured options of a project type.
+ *
+ * @param type The project type
+ * @param props The current project props (e.g. from command line switches).
+ * They are used as defaults and the answers are assigned to them.
+ * @param skip Options that should not be asked for (e.g. because they were
+ * specified on the command line)
+ * @returns the updated props
+ */
+export async function promptOptions(
+  type: inventory.ProjectType,
+  props: Record<string, any>,
+  skip: (option: inventory.ProjectOption) => boolean = () => false,
+) {
+  const questions = interactiveOptions(type)
+    .filter(option => !skip(option))
+    .map(option => toQuestion(option, props[option.name]));
+
+  const answers = await inquirer.prompt(questions);
+
+  const result = { ...props };
+  for (const [name, value] of Object.entries(answers)) {
+    // an empty answer for an optional option means "use the default"
+    if (value === '' || value === undefined) {
+      delete result[name];
+    } else {
+      result[name] = value;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * An inquirer question for the value of a project option.
+ */
+export interface OptionQuestion {
+  /**
+   * "list" for enums, "confirm" for booleans and "input" for all other options.
+   */
+  readonly type: 'list' | 'confirm' | 'input';
+
+  /**
+   * The name of the option (the answer is assigned to it).
+   */
+  readonly name: string;
+
+  /**
+   * The switch and the documentation of the option.
+   */
+  readonly message: string;
+
+  /**
+   * The members of an enum (and a "(default)" choice if it is optional).
+   */
+  readonly choices?: Array<string | { readonly name: string; readonly value: string }>;
+
+  /**
+   * The suggested value.
+   */
+  readonly default?: any;
+
+  /**
+   * Converts the input to the type of the option.
+   */
+  filter?(input: string): any;
+
+  /**
+   * Returns `true` if the (filtered) input is valid or an error message.
+   */
+  validate?(input: any): true | string;
+}
+
+/**
+ * Renders an option as an inquirer question.
+ *
+ * @param option The project option
+ * @param value The current value of the option (if any)
+ */
+export function toQuestion(option: inventory.ProjectOption, value?: any): OptionQuestion {
+  const suggestion = value ?? suggestDefault(option);
+  const required = !option.optional;
+
+  // documented defaults which are not values (e.g. "- current version") are
+  // displayed as part of the message
+  const defaultDocs = option.default?.startsWith('-') ? ` [default: ${option.default.replace(/^\ *-/, '').replace(/\.$/, '').trim()}]` : '';
+  const message = `${option.switch}: ${option.docs?.replace(/\ *\.$/, '') ?? 'No documentation found'}${defaultDocs}`;
+
+  if (option.kind === 'enum') {
+    const members = option.fqn ? inventory.tryReadEnumMembers(option.fqn) : undefined;
+    if (members) {
+      const current = String(suggestion ?? '').split('.').pop()?.toUpperCase().replace(/-/g, '_');
+      return {
+        type: 'list',
+        name: option.name,
+        message,
+        choices: required ? members : [{ name: '(default)', value: '' }, ...members],
+        default: current && members.includes(current) ? current : undefined,
+      };
+    }
+  }
+
+  if (option.type === 'boolean') {
+    return {
+      type: 'confirm',
+      name: option.name,
+      message,
+      default: typeof suggestion === 'boolean' ? suggestion : undefined,
+    };
+  }
+
+  return {
+    type: 'input',
+    name: option.name,
+    message,
+    default: suggestion !== undefined ? String(suggestion) : undefined,
+    filter: (input: string) => option.type === 'number' && input.trim() !== '' ? Number(input) : input.trim(),
+    validate: (input: any) => {
+      if (input === '' || input === undefined) {
+        return required ? `${option.switch} is required` : true;
+      }
+
+      if (option.type === 'number' && isNaN(input)) {
+        return `${option.switch} must be a number`;
+      }
+
+      return true;
+    },
+  };
+}
+
+/**
+ * Suggests a value for an option based on its "@default". Macros such as
+ * `$GIT_REMOTE` are resolved and defaults which are only documentation are
+ * ignored.
+ */
+function suggestDefault(option: inventory.ProjectOption) {
+  if (!option.default || option.default.startsWith('-')) {
+    return undefined;
+  }
+
+  const macro = tryProcessMacro(option.default);
+  if (macro !== undefined) {
+    return macro;
+  }
+
+  try {
+    return JSON.parse(option.default);
+  } catch {
+    return option.default;
+  }
+}
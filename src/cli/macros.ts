@@ -36,3 +36,11 @@ function getFromGitConfig(key: string): string | undefined {
 function resolveEmail(): string {
   return getFromGitConfig('user.email') ?? 'user@domain.com';
 }
+
+/**
+ * Replaces all macros in a text (e.g. "$BASEDIR") with their values. Unknown
+ * macros are left as-is.
+ */
+export function substituteMacros(text: string) {
+  return text.replace(/\$[A-Z_]+/g, macro => tryProcessMacro(macro) ?? macro);
+}
@@ -0,0 +1,180 @@
+import * as inventory from '../inventory';
+import { applyEdits, findNewExpressions, lineOf, ObjectLiteral, ObjectProperty, SourceEdit } from './projenrc-source';
+
+/**
+ * A change to projen which requires changes to projenrc files (e.g. a renamed
+ * option).
+ */
+export interface Migration {
+  /**
+   * A short description of the change.
+   */
+  readonly description: string;
+
+  /**
+   * Migrates the options of a project in projenrc. Migrations must be
+   * idempotent since they are applied on every upgrade.
+   */
+  apply(context: MigrationContext): void;
+}
+
+/**
+ * The project which is migrated.
+ */
+export interface MigrationContext {
+  /**
+   * The type of the project.
+   */
+  readonly projectType: inventory.ProjectType;
+
+  /**
+   * The options passed to the constructor of the project.
+   */
+  readonly options: ObjectLiteral;
+
+  /**
+   * The source of projenrc.
+   */
+  readonly source: string;
+
+  /**
+   * Replaces a range of projenrc.
+   *
+   * @param edit The range and its replacement
+   * @param change A description of the change (e.g. `renamed "x" to "y"`)
+   */
+  edit(edit: SourceEdit, change: string): void;
+
+  /**
+   * Reports something which cannot be migrated automatically.
+   */
+  warn(message: string): void;
+}
+
+/**
+ * All migrations, in the order they were introduced.
+ */
+export const MIGRATIONS: Migration[] = [
+  renameOption('JsiiProjectOptions', 'python', 'publishToPypi'),
+  renameOption('JsiiProjectOptions', 'dotnet', 'publishToNuget'),
+  renameOption('NodePackageOptions', 'npmRegistry', 'npmRegistryUrl', value => {
+    // "npmRegistry" is a host name and "npmRegistryUrl" a URL
+    const host = /^(['"])([\w.-]+)\1$/.exec(value);
+    return host ? `'https://${host[2]}'` : `\`https://\${${value}}\``;
+  }),
+];
+
+/**
+ * Options for `migrateProjenrc`.
+ */
+export interface MigrateOptions {
+  /**
+   * Directories of npm modules with project types.
+   */
+  readonly moduleDirs?: string[];
+
+  /**
+   * The migrations to apply.
+   *
+   * @default MIGRATIONS
+   */
+  readonly migrations?: Migration[];
+}
+
+/**
+ * The result of `migrateProjenrc`.
+ */
+export interface MigrateResult {
+  /**
+   * The migrated source.
+   */
+  readonly source: string;
+
+  /**
+   * Descriptions of the changes (e.g. `line 3: renamed "python" to "publishToPypi"`).
+   */
+  readonly changes: string[];
+
+  /**
+   * Things which need to be migrated by hand.
+   */
+  readonly warnings: string[];
+}
+
+/**
+ * Applies migrations to the options of all projects in a .projenrc.js or
+ * .projenrc.ts source file.
+ */
+export function migrateProjenrc(source: string, options: MigrateOptions = {}): MigrateResult {
+  const migrations = options.migrations ?? MIGRATIONS;
+  const types = inventory.discover(...options.moduleDirs ?? []);
+  const edits = new Array<SourceEdit>();
+  const changes = new Array<string>();
+  const warnings = new Array<string>();
+
+  for (const expr of findNewExpressions(source)) {
+    const projectType = types.find(t => t.typename === expr.className);
+    const projectOptions = expr.args[0]?.object;
+    if (!projectType || !projectOptions) {
+      continue;
+    }
+
+    for (const migration of migrations) {
+      migration.apply({
+        projectType,
+        options: projectOptions,
+        source,
+        edit: (edit, change) => {
+          edits.push(edit);
+          changes.push(`line ${lineOf(source, edit.start)}: ${change}`);
+        },
+        warn: message => warnings.push(`line ${lineOf(source, projectOptions.start)}: ${message}`),
+      });
+    }
+  }
+
+  return { source: applyEdits(source, edits), changes, warnings };
+}
+
+/**
+ * A migration which renames an option of a project. Projects are migrated if
+ * their type has the new option, so the old option can be removed from projen.
+ *
+ * @param parent The options struct which declares the new option (e.g. "JsiiProjectOptions")
+ * @param from The old name of the option
+ * @param to The new name of the option
+ * @param convert Converts the value (source) of the old option to the value of the new option
+ */
+export function renameOption(parent: string, from: string, to: string, convert?: (value: string) => string): Migration {
+  return {
+    description: `${parent}: "${from}" was renamed to "${to}"`,
+    apply: context => {
+      if (!context.projectType.options.find(o => o.name === to && o.parent === parent)) {
+        return;
+      }
+
+      const prop = findProperty(context.options, from);
+      if (!prop) {
+        return;
+      }
+
+      if (findProperty(context.options, to)) {
+        context.warn(`both "${from}" and "${to}" are specified. Remove "${from}"`);
+        return;
+      }
+
+      if (!convert && prop.value) {
+        context.edit({ ...prop.key, text: to }, `renamed "${from}" to "${to}"`);
+        return;
+      }
+
+      // shorthand properties (e.g. `{ python }`) have no value
+      const value = prop.value?.text ?? from;
+      context.edit({ start: prop.start, end: prop.end, text: `${to}: ${convert ? convert(value) : value}` }, `renamed "${from}" to "${to}"`);
+    },
+  };
+}
+
+function findProperty(object: ObjectLiteral, name: string): ObjectProperty | undefined {
+  return object.properties.find(p => p.name === name);
+}
@@ -0,0 +1,122 @@
+import * as path from 'path';
+import * as fs from 'fs-extra';
+import * as YAML from 'yaml';
+import { PROJENRC_FILES } from '../common';
+import * as inventory from '../inventory';
+import { Project } from '../project';
+import { ProjenrcJson } from '../projenrc-json';
+
+/**
+ * The names of declarative projenrc files, in order of precedence.
+ */
+export const DECLARATIVE_RC_FILES = PROJENRC_FILES.filter(isDeclarativeRc);
+
+/**
+ * Indicates if a projenrc file is a declarative (JSON or YAML) file.
+ */
+export function isDeclarativeRc(rcfile: string) {
+  return ['.json', '.yaml', '.yml'].includes(path.extname(rcfile));
+}
+
+/**
+ * Returns the path of the declarative projenrc file in a directory (if there
+ * is one).
+ */
+export function findDeclarativeRc(dir: string): string | undefined {
+  return DECLARATIVE_RC_FILES.map(f => path.join(dir, f)).find(f => fs.existsSync(f));
+}
+
+/**
+ * Creates the project defined in a declarative projenrc file. The `type` key
+ * of the file is the jsii FQN of the project type and all other keys are
+ * passed as options to its constructor.
+ *
+ * Options with an enum type can be specified by the name of the enum member
+ * (e.g. "APP") or its value, and runtime projenrc files (e.g. `projenrcJs`)
+ * are disabled unless specified otherwise.
+ *
+ * @param rcfile The absolute path of the projenrc file
+ */
+export function loadProjenrcJson(rcfile: string): Project {
+  const outdir = path.dirname(rcfile);
+  const filename = path.basename(rcfile);
+  const { type: fqn, $schema, ...options } = readProjenrc(rcfile);
+
+  if (typeof fqn !== 'string') {
+    throw new Error(`${filename}: "type" must be the jsii FQN of a project type (e.g. "projen.typescript.TypeScriptProject")`);
+  }
+
+  const moduleName = fqn.split('.')[0];
+  const moduleDirs = moduleName === 'projen' ? [] : [resolveModuleDir(moduleName, outdir)];
+  const type = inventory.discover(...moduleDirs).find(t => t.fqn === fqn);
+  if (!type) {
+    throw new Error(`${filename}: "${fqn}" is not a project type`);
+  }
+
+  for (const option of type.options) {
+    const value = options[option.name];
+
+    if (value === undefined && option.type === 'boolean' && /^projenrc[A-Z]/.test(option.name)) {
+      options[option.name] = false;
+    }
+
+    if (typeof value === 'string' && option.kind === 'enum' && option.fqn) {
+      const enumType = resolveFqn(option.fqn, outdir);
+      if (value in enumType) {
+        options[option.name] = enumType[value];
+      }
+    }
+  }
+
+  const projectClass = resolveFqn(fqn, outdir);
+  const project: Project = new projectClass({ outdir, ...options });
+  new ProjenrcJson(project, { filename: path.relative(project.outdir, rcfile) });
+  return project;
+}
+
+function readProjenrc(rcfile: string): { [key: string]: any } {
+  const content = fs.readFileSync(rcfile, 'utf-8');
+
+  let spec;
+  try {
+    spec = path.extname(rcfile) === '.json' ? JSON.parse(content) : YAML.parse(content);
+  } catch (e) {
+    throw new Error(`unable to parse ${path.basename(rcfile)}: ${e.message}`);
+  }
+
+  if (typeof spec !== 'object' || spec === null || Array.isArray(spec)) {
+    throw new Error(`${path.basename(rcfile)} must contain an object`);
+  }
+
+  return spec;
+}
+
+/**
+ * Returns the directory of a module installed in (or above) a directory.
+ */
+export function resolveModuleDir(moduleName: string, dir: string) {
+  try {
+    return path.dirname(require.resolve(`${moduleName}/package.json`, { paths: [dir] }));
+  } catch (e) {
+    throw new Error(`unable to find module "${moduleName}". Make sure it is installed`);
+  }
+}
+
+/**
+ * Returns the class (or enum) with a jsii FQN such as `projen.web.ReactProject`.
+ */
+function resolveFqn(fqn: string, dir: string): any {
+  const [moduleName, ...names] = fqn.split('.');
+
+  // eslint-disable-next-line @typescript-eslint/no-require-imports
+  let curr = moduleName === 'projen' ? require('..') : require(require.resolve(moduleName, { paths: [dir] }));
+  for (const name of names) {
+    curr = curr?.[name];
+  }
+
+  if (!curr) {
+    throw new Error(`unable to resolve ${fqn}`);
+  }
+
+  return curr;
+}
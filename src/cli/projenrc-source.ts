@@ -0,0 +1,393 @@
+import * as path from 'path';
+import * as fs from 'fs-extra';
+import { PROJEN_RC } from '../common';
+
+/**
+ * A range of a projenrc source file.
+ */
+export interface SourceRange {
+  /**
+   * Offset of the first character.
+   */
+  readonly start: number;
+
+  /**
+   * Offset after the last character.
+   */
+  readonly end: number;
+}
+
+/**
+ * An object literal (e.g. the options of a project).
+ */
+export interface ObjectLiteral extends SourceRange {
+  /**
+   * The properties of the object in source order. Spread elements (`...x`)
+   * and computed keys (`[x]: y`) are not included.
+   */
+  readonly properties: ObjectProperty[];
+}
+
+/**
+ * A property of an object literal.
+ */
+export interface ObjectProperty extends SourceRange {
+  /**
+   * The name of the property (quotes of string keys are removed).
+   */
+  readonly name: string;
+
+  /**
+   * The range of the key (including quotes).
+   */
+  readonly key: SourceRange;
+
+  /**
+   * The value of the property. Shorthand properties (`{ x }`) have no value.
+   */
+  readonly value?: Expression;
+}
+
+/**
+ * An expression. Only object literals are parsed, all other expressions are
+ * opaque.
+ */
+export interface Expression extends SourceRange {
+  /**
+   * The source of the expression.
+   */
+  readonly text: string;
+
+  /**
+   * Set if the expression is an object literal.
+   */
+  readonly object?: ObjectLiteral;
+}
+
+/**
+ * A `new X(...)` expression.
+ */
+export interface NewExpression extends SourceRange {
+  /**
+   * The name of the class as written in source (e.g. `TypeScriptProject` or
+   * `web.ReactProject`).
+   */
+  readonly className: string;
+
+  /**
+   * The arguments of the constructor.
+   */
+  readonly args: Expression[];
+}
+
+/**
+ * Returns the projenrc file to edit: the file specified through `--rc` or
+ * .projenrc.js/.projenrc.ts in the current directory.
+ *
+ * @returns the absolute path of the file or `undefined` if there is no such file
+ */
+export function findProjenrcSource(baseDir: string, rc?: string) {
+  let rcfile = path.resolve(baseDir, rc ?? PROJEN_RC);
+  if (rcfile === path.resolve(baseDir, PROJEN_RC) && !fs.existsSync(rcfile)) {
+    rcfile = path.resolve(baseDir, '.projenrc.ts');
+  }
+
+  return fs.existsSync(rcfile) ? rcfile : undefined;
+}
+
+/**
+ * Indicates if a projenrc file is a JavaScript or TypeScript source file.
+ */
+export function isSourceRc(rcfile: string) {
+  return ['.js', '.ts'].includes(path.extname(rcfile));
+}
+
+/**
+ * Finds all `new X(...)` expressions in a JavaScript or TypeScript source
+ * file. Comments and strings are skipped.
+ */
+export function findNewExpressions(source: string): NewExpression[] {
+  const result = new Array<NewExpression>();
+  const parser = new Parser(source);
+
+  while (!parser.done) {
+    const start = parser.pos;
+    const match = parser.match(/new\s+([A-Za-z_$][\w$]*(?:\.[A-Za-z_$][\w$]*)*)\s*\(/y);
+    if (match && (start === 0 || !/[\w$.]/.test(source[start - 1]))) {
+      const args = parser.parseArguments();
+      result.push({ start, end: parser.pos, className: match[1], args });
+
+      // continue right after the class name in order to find nested expressions
+      parser.pos = start + match[0].length;
+      continue;
+    }
+
+    parser.skipToken(false);
+  }
+
+  return result;
+}
+
+/**
+ * Applies edits (replacements of ranges) to a source file.
+ */
+export function applyEdits(source: string, edits: SourceEdit[]) {
+  const sorted = [...edits].sort((e1, e2) => e2.start - e1.start);
+  let result = source;
+
+  for (const edit of sorted) {
+    result = result.slice(0, edit.start) + edit.text + result.slice(edit.end);
+  }
+
+  return result;
+}
+
+/**
+ * Replaces a range of a source file.
+ */
+export interface SourceEdit extends SourceRange {
+  /**
+   * The replacement.
+   */
+  readonly text: string;
+}
+
+/**
+ * Returns the (1-based) line number of an offset.
+ */
+export function lineOf(source: string, offset: number) {
+  return source.slice(0, offset).split('\n').length;
+}
+
+const CLOSING: Record<string, string> = { '(': ')', '[': ']', '{': '}' };
+
+/**
+ * A minimal parser for JavaScript and TypeScript which understands comments,
+ * strings, template literals, regular expressions and brackets. This is just
+ * enough to find object literals in projenrc files without a dependency on
+ * the TypeScript compiler.
+ */
+class Parser {
+  public pos = 0;
+
+  constructor(private readonly source: string) {}
+
+  public get done() {
+    return this.pos >= this.source.length;
+  }
+
+  public match(regex: RegExp) {
+    regex.lastIndex = this.pos;
+    const match = regex.exec(this.source);
+    if (match) {
+      this.pos += match[0].length;
+    }
+
+    return match ?? undefined;
+  }
+
+  /**
+   * Parses the arguments of a call (the position is right after the opening
+   * parenthesis).
+   */
+  public parseArguments() {
+    const args = new Array<Expression>();
+
+    this.skipTrivia();
+    while (!this.done && this.source[this.pos] !== ')') {
+      args.push(this.parseExpression());
+      this.skipTrivia();
+      if (this.source[this.pos] === ',') {
+        this.pos++;
+        this.skipTrivia();
+      }
+    }
+
+    this.pos++;
+    return args;
+  }
+
+  /**
+   * Parses an expression up to the next top-level `,`, `)`, `]`, `}` or `;`.
+   */
+  public parseExpression(): Expression {
+    this.skipTrivia();
+    const start = this.pos;
+
+    let object: ObjectLiteral | undefined;
+    if (this.source[this.pos] === '{') {
+      object = this.parseObjectLiteral();
+      this.skipTrivia();
+    }
+
+    while (!this.done && !',)]};'.includes(this.source[this.pos])) {
+      object = undefined; // e.g. `{ ... } as Foo` is not an object literal
+      this.skipToken();
+      this.skipTrivia();
+    }
+
+    const end = this.endOfLastToken(start);
+    return { start, end, text: this.source.slice(start, end), object };
+  }
+
+  /**
+   * Skips a single token.
+   *
+   * @param groups Whether to skip bracketed groups as a whole
+   */
+  public skipToken(groups = true) {
+    const ch = this.source[this.pos];
+
+    if (this.skipTrivia()) {
+      return;
+    }
+
+    if (ch === '\'' || ch === '"') {
+      this.skipString(ch);
+    } else if (ch === '`') {
+      this.skipTemplate();
+    } else if (ch === '/' && this.isRegexStart()) {
+      this.skipRegex();
+    } else if (CLOSING[ch] && groups) {
+      this.skipGroup(ch);
+    } else if (/[\w$]/.test(ch)) {
+      this.match(/[\w$]+/y);
+    } else {
+      this.pos++;
+    }
+  }
+
+  private parseObjectLiteral(): ObjectLiteral {
+    const start = this.pos;
+    const properties = new Array<ObjectProperty>();
+    this.pos++; // {
+
+    this.skipTrivia();
+    while (!this.done && this.source[this.pos] !== '}') {
+      const propStart = this.pos;
+      const name = this.parsePropertyName();
+      const keyEnd = this.pos;
+
+      if (name === undefined) {
+        // spread or computed key
+        this.parseExpression();
+      } else {
+        this.skipTrivia();
+        let value;
+        if (this.source[this.pos] === ':') {
+          this.pos++;
+          value = this.parseExpression();
+        } else if (!',}'.includes(this.source[this.pos])) {
+          // e.g. a method
+          this.parseExpression();
+        }
+
+        const key = { start: propStart, end: keyEnd };
+        properties.push({ start: propStart, end: this.endOfLastToken(propStart), name, key, value });
+      }
+
+      this.skipTrivia();
+      if (this.source[this.pos] === ',') {
+        this.pos++;
+        this.skipTrivia();
+      } else if (this.source[this.pos] !== '}') {
+        // not an object literal after all (e.g. a block), skip to its end
+        this.pos = start;
+        this.skipGroup('{');
+        return { start, end: this.pos, properties: [] };
+      }
+    }
+
+    this.pos++; // }
+    return { start, end: this.pos, properties };
+  }
+
+  private parsePropertyName(): string | undefined {
+    const ch = this.source[this.pos];
+    if (ch === '\'' || ch === '"') {
+      const start = this.pos;
+      this.skipString(ch);
+      return this.source.slice(start + 1, this.pos - 1);
+    }
+
+    return this.match(/[A-Za-z_$][\w$]*/y)?.[0];
+  }
+
+  /**
+   * Skips whitespace and comments.
+   * @returns whether anything was skipped
+   */
+  private skipTrivia() {
+    const start = this.pos;
+    while (this.match(/\s+|\/\/[^\n]*|\/\*[\s\S]*?(\*\/|$)/y));
+    return this.pos > start;
+  }
+
+  private skipString(quote: string) {
+    this.pos++;
+    while (!this.done && this.source[this.pos] !== quote && this.source[this.pos] !== '\n') {
+      this.pos += this.source[this.pos] === '\\' ? 2 : 1;
+    }
+    this.pos++;
+  }
+
+  private skipTemplate() {
+    this.pos++;
+    while (!this.done && this.source[this.pos] !== '`') {
+      if (this.source[this.pos] === '\\') {
+        this.pos += 2;
+      } else if (this.source.startsWith('${', this.pos)) {
+        this.pos++;
+        this.skipGroup('{');
+      } else {
+        this.pos++;
+      }
+    }
+    this.pos++;
+  }
+
+  private skipRegex() {
+    if (!this.match(/\/(\\.|\[(\\.|[^\]\n])*\]|[^/\\\n])+\/[a-z]*/y)) {
+      this.pos++;
+    }
+  }
+
+  private skipGroup(open: string) {
+    const close = CLOSING[open];
+    this.pos++;
+    this.skipTrivia();
+    while (!this.done && this.source[this.pos] !== close) {
+      this.skipToken();
+      this.skipTrivia();
+    }
+    this.pos++;
+  }
+
+  /**
+   * A slash starts a regular expression unless it follows an operand.
+   */
+  private isRegexStart() {
+    const before = this.source.slice(0, this.pos).replace(/\s+$/, '');
+    return before === '' || /[(,=:[!&|?{};+\-*%<>~^]$/.test(before) || /\b(return|typeof|case)$/.test(before);
+  }
+
+  /**
+   * Returns the end of the last token between `start` and the current
+   * position (i.e. excluding trailing whitespace and comments).
+   */
+  private endOfLastToken(start: number) {
+    const pos = this.pos;
+    let end = start;
+
+    this.pos = start;
+    while (this.pos < pos) {
+      if (!this.skipTrivia()) {
+        this.skipToken();
+        end = this.pos;
+      }
+    }
+
+    this.pos = pos;
+    return end;
+  }
+}
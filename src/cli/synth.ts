@@ -6,6 +6,7 @@ import { PROJEN_RC } from '../common';
 import * as logging from '../logging';
 import { Project } from '../project';
 import { TaskRuntime } from '../tasks';
+import { findDeclarativeRc, isDeclarativeRc, loadProjenrcJson } from './projenrc-json';
 
 const projenModule = path.dirname(require.resolve('../../package.json'));
 
@@ -27,15 +28,34 @@ export interface SynthOptions {
    * @default ".projenrc.js"
    */
   readonly rcfile?: string;
+
+  /**
+   * Print the pending changes instead of writing files (implies no post
+   * synthesis).
+   * @default false
+   */
+  readonly dryRun?: boolean;
+
+  /**
+   * Fail if generated files are out of date instead of writing them (implies
+   * no post synthesis).
+   * @default false
+   */
+  readonly check?: boolean;
 }
 
 export async function synth(runtime: TaskRuntime, options: SynthOptions) {
   const workdir = runtime.workdir;
-  const rcfile = path.resolve(workdir, options.rcfile ?? PROJEN_RC); // TODO: support non javascript projenrc (e.g. java projects)
+  let rcfile = path.resolve(workdir, options.rcfile ?? PROJEN_RC);
 
   // if --rc points to .projenrc.js, then behave as if it wasn't specified.
   if (rcfile === path.resolve(workdir, PROJEN_RC)) {
     delete (options as any).rcfile;
+
+    // fall back to a declarative projenrc (e.g. .projenrc.json) if there is no .projenrc.js
+    if (!fs.existsSync(rcfile)) {
+      rcfile = findDeclarativeRc(workdir) ?? rcfile;
+    }
   }
 
   // if there are no tasks, we assume this is not a projen project (modern
@@ -58,7 +78,9 @@ export async function synth(runtime: TaskRuntime, options: SynthOptions) {
 
   async function trySynth() {
     // determine if post synthesis tasks should be executed (e.g. "yarn install").
-    process.env.PROJEN_DISABLE_POST = (!options.post).toString();
+    process.env.PROJEN_DISABLE_POST = (!options.post || !!options.dryRun || !!options.check).toString();
+    process.env.PROJEN_DRY_RUN = (!!options.dryRun).toString();
+    process.env.PROJEN_CHECK = (!!options.check).toString();
     try {
       const defaultTask = runtime.tasks.find(t => t.name === Project.DEFAULT_TASK);
 
@@ -67,11 +89,18 @@ export async function synth(runtime: TaskRuntime, options: SynthOptions) {
         if (!options.rcfile) {
           runtime.runTask(defaultTask.name);
           return true;
-        } else {
+        } else if (!isDeclarativeRc(rcfile)) {
           logging.warn('Default task skipped. Trying legacy synthesis since --rc is specified');
         }
       }
 
+      // declarative projenrc files are synthesized by the CLI itself (this is
+      // also what the default task of such projects does)
+      if (isDeclarativeRc(rcfile) && fs.existsSync(rcfile)) {
+        loadProjenrcJson(rcfile).synth();
+        return true;
+      }
+
       // for backwards compatibility, if there is a .projenrc.js file, default to "node .projenrc.js"
       if (tryLegacySynth()) {
         return true;
@@ -119,7 +148,11 @@ export async function synth(runtime: TaskRuntime, options: SynthOptions) {
       fs.symlinkSync(projenModule, projenModulePath, (os.platform() === 'win32') ? 'junction' : null);
     }
 
-    spawnSync(process.execPath, [rcfile], { stdio: 'inherit' });
+    const result = spawnSync(process.execPath, [rcfile], { stdio: 'inherit' });
+    if (result.status !== 0) {
+      throw new Error(`${path.basename(rcfile)} exited with code ${result.status}`);
+    }
+
     return true;
   }
 }
@@ -1,6 +1,7 @@
+import { delimiter, resolve } from 'path';
 import * as yargs from 'yargs';
 import * as logging from '../logging';
-import { TaskRuntime } from '../tasks';
+import { TaskRuntime, TaskSpec, TaskStep } from '../tasks';
 
 /**
  * Reads .projen/tasks.json and adds CLI commands for all tasks.
@@ -15,14 +16,38 @@ export function discoverTaskCommands(runtime: TaskRuntime, ya: yargs.Argv) {
   function taskCommandHandler(taskName: string) {
     return (args: yargs.Argv) => {
       args.option('inspect', { alias: 'i', desc: 'show all steps in this task' });
+      args.option('json', { type: 'boolean', desc: 'show the steps of the task as JSON (with --inspect)' });
+      args.option('force', { type: 'boolean', desc: 'execute tasks even if their inputs did not change' });
+      args.option('env', { type: 'string', desc: 'load variables from environment-specific files (e.g. ".env.staging" for "--env staging")' });
+      args.option('report', { type: 'string', array: true, desc: 'write an execution report with timings to a file (JUnit XML if the file ends with .xml, JSON otherwise)' });
+      args.parserConfiguration({ 'populate--': true });
 
       const argv = args.argv;
 
-      if (argv.inspect) {
+      if (argv.inspect && argv.json) {
+        console.log(JSON.stringify(resolveTask(runtime, taskName), undefined, 2));
+      } else if (argv.inspect) {
         return inspectTask(taskName);
       } else {
+        if (argv.force) {
+          process.env.PROJEN_NO_CACHE = 'true';
+        }
+
+        if (argv.env) {
+          process.env.PROJEN_ENV = argv.env as string;
+        }
+
+        const reports = (argv.report as string[] | undefined) ?? [];
+        if (reports.length > 0) {
+          process.env.PROJEN_TASK_REPORT = reports.map(f => resolve(f)).join(delimiter);
+        }
+
+        // arguments after "--" (e.g. `projen test -- -t foo`) are passed to
+        // steps with `receiveArgs`
+        const taskArgs = ((argv['--'] ?? []) as Array<string | number>).map(a => a.toString());
+
         try {
-          runtime.runTask(taskName);
+          runtime.runTask(taskName, [], taskArgs);
         } catch (e) {
           logging.error(e.message);
           process.exit(1);
@@ -43,9 +68,88 @@ export function discoverTaskCommands(runtime: TaskRuntime, ya: yargs.Argv) {
       if (step.spawn) {
         writeln(`${step.spawn}:`);
         inspectTask(step.spawn, indent + 3);
+      } else if (step.parallel) {
+        writeln('parallel:');
+        for (const subtask of step.parallel) {
+          writeln(`   ${subtask}:`);
+          inspectTask(subtask, indent + 6);
+        }
       } else if (step.exec) {
         writeln(step.exec);
       }
     }
   };
-}
\ No newline at end of file
+}
+
+/**
+ * Returns a `visit` function for `yargs.commandDir` which skips built-in
+ * commands if the project has a task with the same name (e.g. the "eject" task
+ * of React projects), so tasks are not shadowed by commands.
+ * @param runtime The task runtime
+ */
+export function skipShadowedCommands(runtime: TaskRuntime) {
+  return (command: yargs.CommandModule) => {
+    // e.g. "graph [task]"
+    const [usage] = typeof command.command === 'string' ? [command.command] : command.command ?? [];
+    const name = usage?.split(' ')[0];
+    if (name && runtime.tryFindTask(name)) {
+      logging.debug(`"${name}" is a task of this project, so the built-in "${name}" command is not available`);
+      return undefined;
+    }
+
+    return command;
+  };
+}
+
+/**
+ * A task with its environment and subtasks resolved.
+ */
+export interface ResolvedTask extends TaskSpec {
+  readonly steps?: ResolvedTaskStep[];
+}
+
+/**
+ * A task step with its subtasks resolved.
+ */
+export interface ResolvedTaskStep extends TaskStep {
+  /**
+   * The resolved `spawn` subtask.
+   */
+  readonly subtask?: ResolvedTask;
+
+  /**
+   * The resolved `parallel` subtasks.
+   */
+  readonly subtasks?: ResolvedTask[];
+}
+
+/**
+ * Resolves a task from the manifest into a tree which includes the global
+ * environment and all the subtasks it spawns.
+ *
+ * @param runtime The task runtime
+ * @param name The name of the task
+ */
+export function resolveTask(runtime: TaskRuntime, name: string, parents: string[] = []): ResolvedTask {
+  const task = runtime.tryFindTask(name);
+  if (!task) {
+    throw new Error(`${name}: unable to resolve subtask with name "${name}"`);
+  }
+
+  if (parents.includes(name)) {
+    throw new Error(`${name}: task spawns itself: ${[...parents, name].join(' » ')}`);
+  }
+
+  const env = { ...runtime.manifest.env ?? {}, ...task.env ?? {} };
+  const resolveSubtask = (subtask: string) => resolveTask(runtime, subtask, [...parents, name]);
+
+  return {
+    ...task,
+    env: Object.keys(env).length > 0 ? env : undefined,
+    steps: task.steps?.map(step => ({
+      ...step,
+      subtask: step.spawn ? resolveSubtask(step.spawn) : undefined,
+      subtasks: step.parallel?.map(resolveSubtask),
+    })),
+  };
+}
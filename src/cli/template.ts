@@ -0,0 +1,130 @@
+import * as child_process from 'child_process';
+import * as os from 'os';
+import * as path from 'path';
+import * as fs from 'fs-extra';
+import * as glob from 'glob';
+import { PROJENRC_FILES } from '../common';
+import * as logging from '../logging';
+import { substituteMacros } from './macros';
+
+/**
+ * Indicates if a `--from` spec refers to a git repository (as opposed to an
+ * npm package spec). The spec can be pinned to a ref (branch, tag or commit)
+ * with a "#ref" suffix.
+ *
+ * @example "https://github.com/acme/starter.git#v1.2.0"
+ * @example "git@github.com:acme/starter.git"
+ * @example "git+file:///home/me/starter"
+ */
+export function isGitSpec(spec: string) {
+  return /^(git\+|git:\/\/|git@|ssh:\/\/)/.test(spec) || /^https?:\/\/.+\.git(#.+)?$/.test(spec);
+}
+
+/**
+ * Fetches a project template from a local directory or a git repository into
+ * a temporary directory (for git) and calls `handler` with its path.
+ *
+ * Returns `false` without calling `handler` if `spec` is neither a local
+ * directory nor a git URL or if it does not contain a projenrc file, in
+ * which case it should be treated as an npm module.
+ *
+ * @param baseDir The directory `spec` is relative to
+ * @param spec A local path or a git URL
+ * @param handler Called with the template directory
+ */
+export async function withTemplate(baseDir: string, spec: string, handler: (templateDir: string) => Promise<void>) {
+  const localDir = path.resolve(baseDir, spec);
+  if (fs.existsSync(localDir) && fs.statSync(localDir).isDirectory()) {
+    if (!isTemplate(localDir)) {
+      return false;
+    }
+
+    await handler(localDir);
+    return true;
+  }
+
+  if (!isGitSpec(spec)) {
+    return false;
+  }
+
+  const [url, ref] = spec.replace(/^git\+/, '').split('#');
+  const cloneDir = fs.mkdtempSync(path.join(os.tmpdir(), 'projen-template-'));
+  try {
+    logging.info(`cloning ${url}${ref ? ` (${ref})` : ''}...`);
+    git(['clone', '--quiet', '--', url, cloneDir]);
+    if (ref) {
+      if (ref.startsWith('-')) {
+        throw new Error(`Invalid git ref: ${ref}`);
+      }
+      git(['checkout', '--quiet', ref, '--'], cloneDir);
+    }
+
+    if (!isTemplate(cloneDir)) {
+      return false;
+    }
+
+    await handler(cloneDir);
+    return true;
+  } finally {
+    fs.removeSync(cloneDir);
+  }
+}
+
+/**
+ * Copies the files of a project template into a directory. Macros such as
+ * `$BASEDIR` or `$GIT_USER_NAME` are substituted in file names and in the
+ * contents of text files.
+ *
+ * @param templateDir The template directory
+ * @param outdir The project directory
+ */
+export function copyTemplate(templateDir: string, outdir: string) {
+  const files = glob.sync('**', {
+    ignore: ['.git/**', 'node_modules/**'],
+    cwd: templateDir,
+    dot: true,
+    nodir: true,
+  });
+
+  // check for conflicts before writing anything so we don't leave a partial
+  // project behind
+  const rendered = files.map(file => ({
+    source: path.join(templateDir, file),
+    target: path.join(outdir, substituteMacros(file)),
+  }));
+
+  for (const { target } of rendered) {
+    if (fs.existsSync(target)) {
+      throw new Error(`Cannot create project from template: ${path.relative(outdir, target)} already exists`);
+    }
+  }
+
+  for (const { source, target } of rendered) {
+    const content = fs.readFileSync(source);
+    fs.mkdirpSync(path.dirname(target));
+
+    // binary files are copied as-is
+    if (content.includes(0)) {
+      fs.writeFileSync(target, content);
+    } else {
+      fs.writeFileSync(target, substituteMacros(content.toString('utf-8')));
+    }
+
+    fs.chmodSync(target, fs.statSync(source).mode);
+  }
+}
+
+/**
+ * Executes git without a shell, so the URL and ref of a spec are passed as-is.
+ */
+function git(args: string[], cwd?: string) {
+  logging.verbose(`git ${args.join(' ')}`);
+  child_process.execFileSync('git', args, {
+    cwd,
+    stdio: ['inherit', process.stderr, 'pipe'],
+  });
+}
+
+function isTemplate(dir: string) {
+  return PROJENRC_FILES.some(file => fs.existsSync(path.join(dir, file)));
+}
@@ -6,14 +6,14 @@ export class Clobber extends Component {
   constructor(project: Project) {
     super(project);
 
-    const task = this.project.addTask('clobber', {
+    const task = this.ownTask(this.project.addTask('clobber', {
       description: 'hard resets to HEAD of origin and cleans the local repo',
       category: TaskCategory.MAINTAIN,
       condition: 'git diff --exit-code > /dev/null',
       env: {
         BRANCH: '$(git branch --show-current)',
       },
-    });
+    }));
 
     task.exec('git checkout -b scratch', { name: 'save current HEAD in "scratch" branch' });
     task.exec('git checkout $BRANCH');
@@ -1,4 +1,20 @@
 export const PROJEN_RC = '.projenrc.js';
+
+/**
+ * The projenrc files of all languages (declarative files in order of
+ * precedence).
+ */
+export const PROJENRC_FILES = [
+  '.projenrc.js',
+  '.projenrc.ts',
+  '.projenrc.py',
+  'src/test/java/projenrc.java',
+  'src/main/java/projenrc.java',
+  '.projenrc.json',
+  '.projenrc.yaml',
+  '.projenrc.yml',
+];
+
 export const PROJEN_DIR = '.projen';
 export const PROJEN_MARKER = '~~ Generated by ' + 'projen'; // we split into two so /this/ file does not match the marker
 
@@ -1,9 +1,25 @@
+import { Dependency, DependencyType } from './deps';
+import { IgnoreFile } from './ignore-file';
 import { Project } from './project';
+import { Task, TaskStepOptions } from './tasks';
 
 /**
  * Represents a project component.
  */
 export class Component {
+  private readonly after = new Set<Component>();
+  private readonly ownedComponents = new Array<Component>();
+  private readonly ownedTasks = new Array<Task>();
+  private readonly ownedSteps = new Array<{ readonly task: Task; readonly command: string }>();
+  private readonly ownedIgnorePatterns = new Array<{ readonly file: IgnoreFile; readonly pattern: string }>();
+  private readonly ownedDeps = new Array<Dependency>();
+
+  /**
+   * The component which created this component (see `own()`).
+   * @internal
+   */
+  public _owner?: Component;
+
   constructor(public readonly project: Project) {
     project._addComponent(this);
   }
@@ -19,7 +35,150 @@ export class Component {
   public synthesize() {}
 
   /**
-   * Called after synthesis. Order is *not* guaranteed.
+   * Called after synthesis.
    */
   public postSynthesize() {}
-}
\ No newline at end of file
+
+  /**
+   * Validates the component. Called for all components of the project (and
+   * its subprojects) after pre-synthesis and before any file is deleted or
+   * written. If any component reports errors, synthesis fails with all of
+   * them.
+   *
+   * @returns a list of error messages (empty if the component is valid)
+   */
+  public validate(): string[] {
+    return [];
+  }
+
+  /**
+   * Ensures the synthesis phases of this component (`preSynthesize()`,
+   * `synthesize()` and `postSynthesize()`) are called after those of other
+   * components of the same project. For example, to run after the
+   * dependencies of a `NodeProject` are installed:
+   *
+   *    myComponent.synthesizeAfter(project.package);
+   *
+   * By default, components are called in the order they were added to the
+   * project.
+   *
+   * @param components The components to synthesize before this one
+   */
+  public synthesizeAfter(...components: Component[]) {
+    for (const c of components) {
+      this.after.add(c);
+    }
+  }
+
+  /**
+   * Ensures the synthesis phases of this component are called before those of
+   * other components of the same project.
+   *
+   * @param components The components to synthesize after this one
+   */
+  public synthesizeBefore(...components: Component[]) {
+    for (const c of components) {
+      c.synthesizeAfter(this);
+    }
+  }
+
+  /**
+   * The components this component must be synthesized after.
+   * @internal
+   */
+  public get _synthesizeAfter(): Component[] {
+    return [...this.after];
+  }
+
+  /**
+   * The components, tasks, task steps, ignore patterns and dependencies
+   * contributed by this component.
+   * @internal
+   */
+  public get _owned() {
+    return {
+      components: [...this.ownedComponents],
+      tasks: [...this.ownedTasks],
+      steps: [...this.ownedSteps],
+      ignorePatterns: [...this.ownedIgnorePatterns],
+      dependencies: [...this.ownedDeps],
+    };
+  }
+
+  /**
+   * Marks other components (such as files) as contributed by this component,
+   * so they are removed together with it (see `Project.removeComponent()`).
+   *
+   * @param components The components to own
+   */
+  protected own(...components: Component[]) {
+    for (const c of components) {
+      c._owner = c._owner ?? this;
+      this.ownedComponents.push(c);
+    }
+  }
+
+  /**
+   * Marks a task as contributed by this component, so it is removed together
+   * with it (see `Project.removeComponent()`). Steps of other tasks which spawn
+   * this task are removed as well.
+   *
+   * @param task The task to own
+   * @returns the task
+   */
+  protected ownTask(task: Task): Task {
+    this.ownedTasks.push(task);
+    return task;
+  }
+
+  /**
+   * Adds a command to a task of the project (such as the test task) which is
+   * removed together with this component (see `Project.removeComponent()`).
+   *
+   * @param task The task
+   * @param command The shell command to execute
+   * @param options Options for the step
+   */
+  protected ownExec(task: Task, command: string, options: TaskStepOptions = {}) {
+    task.exec(command, options);
+    this.ownedSteps.push({ task, command });
+  }
+
+  /**
+   * Adds patterns to the project's .gitignore which are removed together with
+   * this component (see `Project.removeComponent()`).
+   *
+   * @param patterns The patterns to ignore
+   */
+  protected ownGitIgnore(...patterns: string[]) {
+    this.ownIgnorePatterns(this.project.gitignore, ...patterns);
+  }
+
+  /**
+   * Adds patterns to an ignore file (such as .npmignore) which are removed
+   * together with this component (see `Project.removeComponent()`).
+   *
+   * @param file The ignore file
+   * @param patterns The patterns to add
+   */
+  protected ownIgnorePatterns(file: IgnoreFile, ...patterns: string[]) {
+    file.addPatterns(...patterns);
+    for (const pattern of patterns) {
+      this.ownedIgnorePatterns.push({ file, pattern });
+    }
+  }
+
+  /**
+   * Adds a dependency to the project which is removed together with this
+   * component (see `Project.removeComponent()`).
+   *
+   * @param spec The dependency spec (e.g. `jest@^26`)
+   * @param type The type of the dependency
+   * @returns the dependency
+   */
+  protected ownDependency(spec: string, type: DependencyType): Dependency {
+    const dep = this.project.deps.addDependency(spec, type);
+    this.ownedDeps.push(dep);
+    return dep;
+  }
+}
@@ -131,6 +131,18 @@ export class Dependencies extends Component {
     this._deps.splice(removeIndex, 1);
   }
 
+  /**
+   * Removes a dependency returned by `addDependency()` (other dependencies
+   * with the same name are kept).
+   * @internal
+   */
+  public _removeDependency(dep: Dependency) {
+    const idx = this._deps.indexOf(dep);
+    if (idx !== -1) {
+      this._deps.splice(idx, 1);
+    }
+  }
+
   private tryGetDependencyIndex(name: string, type?: DependencyType): number {
     const deps = this._deps.filter(d => d.name === name);
     if (deps.length === 0) {
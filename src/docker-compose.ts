@@ -114,11 +114,11 @@ export class DockerCompose extends Component {
     super(project);
 
     const nameSuffix = props?.nameSuffix ? `${props!.nameSuffix}.yml` : 'yml';
-    new YamlFile(project, `docker-compose.${nameSuffix}`, {
+    this.own(new YamlFile(project, `docker-compose.${nameSuffix}`, {
       committed: true,
       readonly: true,
       obj: () => this._synthesizeDockerCompose(),
-    });
+    }));
 
     if (props?.schemaVersion && !parseFloat(props.schemaVersion)) {
       throw Error('Version tag needs to be a number');
@@ -144,6 +144,25 @@ export class DockerCompose extends Component {
     return service;
   }
 
+  public validate(): string[] {
+    const errors = new Array<string>();
+    if (Object.keys(this.services).length === 0) {
+      errors.push('DockerCompose requires at least one service');
+    }
+
+    for (const [serviceName, service] of Object.entries(this.services)) {
+      for (const dependsOn of service.dependsOn) {
+        if (dependsOn.serviceName === serviceName) {
+          errors.push(`Service ${serviceName} cannot depend on itself`);
+        } else if (!this.services[dependsOn.serviceName]) {
+          errors.push(`Unable to resolve service named ${dependsOn.serviceName} for ${serviceName}`);
+        }
+      }
+    }
+
+    return errors;
+  }
+
   /**
    * @internal
    */
@@ -1,5 +1,6 @@
 import { PROJEN_RC } from './common';
 import { Component } from './component';
+import { DependencyType } from './deps';
 import { JsonFile } from './json';
 import { NodeProject } from './node-project';
 import { TaskCategory } from './tasks';
@@ -91,7 +92,7 @@ export class Eslint extends Component {
   constructor(project: NodeProject, options: EslintOptions) {
     super(project);
 
-    project.addDevDeps(
+    const devDeps = [
       'eslint',
       '@typescript-eslint/eslint-plugin',
       '@typescript-eslint/parser',
@@ -99,16 +100,20 @@ export class Eslint extends Component {
       'eslint-import-resolver-typescript',
       'eslint-plugin-import',
       'json-schema',
-    );
+    ];
 
     if (options.prettier) {
-      project.addDevDeps(
+      devDeps.push(
         'prettier',
         'eslint-plugin-prettier',
         'eslint-config-prettier',
       );
     }
 
+    for (const dep of devDeps) {
+      this.ownDependency(dep, DependencyType.BUILD);
+    }
+
     const devdirs = options.devdirs ?? [];
 
     const dirs = [...options.dirs, ...devdirs];
@@ -118,7 +123,7 @@ export class Eslint extends Component {
 
     const lintProjenRc = options.lintProjenRc ?? true;
 
-    const eslint = project.addTask('eslint', {
+    const eslint = this.ownTask(project.addTask('eslint', {
       description: 'Runs eslint against the codebase',
       category: TaskCategory.TEST,
       exec: [
@@ -129,12 +134,14 @@ export class Eslint extends Component {
         ...dirs,
         ...lintProjenRc ? [PROJEN_RC] : [],
       ].join(' '),
-    });
+    }));
 
     project.testTask.spawn(eslint);
 
     // exclude some files
-    project.npmignore?.exclude('/.eslintrc.json');
+    if (project.npmignore) {
+      this.ownIgnorePatterns(project.npmignore, '/.eslintrc.json');
+    }
 
     const formattingRules: { [rule: string]: any } = options.prettier ? {
       'prettier/prettier': ['error'],
@@ -318,7 +325,7 @@ export class Eslint extends Component {
       overrides: this.overrides,
     };
 
-    new JsonFile(project, '.eslintrc.json', { obj: this.config, marker: false });
+    this.own(new JsonFile(project, '.eslintrc.json', { obj: this.config, marker: false }));
   }
 
   /**
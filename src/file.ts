@@ -2,6 +2,7 @@ import * as path from 'path';
 import { resolve } from './_resolve';
 import { PROJEN_MARKER, PROJEN_RC } from './common';
 import { Component } from './component';
+import { SynthesisEventType } from './hooks';
 import { Project } from './project';
 import { writeFile } from './util';
 
@@ -77,20 +78,16 @@ export abstract class FileBase extends Component {
     this.absolutePath = path.resolve(project.outdir, filePath);
 
     // verify file path is unique within project tree
-    const existing = project.root.tryFindFile(this.absolutePath);
-    if (existing && existing !== this) {
-      throw new Error(`there is already a file under ${path.relative(project.root.outdir, this.absolutePath)}`);
+    const conflicts = this._validateUnique();
+    if (conflicts.length > 0) {
+      throw new Error(conflicts[0]);
     }
 
     const gitignore = options.editGitignore ?? true;
     if (gitignore) {
       const committed = options.committed ?? true;
       const pattern = `/${this.path}`;
-      if (committed) {
-        project.gitignore.include(pattern);
-      } else {
-        project.gitignore.exclude(pattern);
-      }
+      this.ownIgnorePatterns(project.gitignore, committed ? `!${pattern}` : pattern);
     } else {
       if (options.committed != null) {
         throw new Error('"gitignore" is disabled, so it does not make sense to specify "committed"');
@@ -98,6 +95,32 @@ export abstract class FileBase extends Component {
     }
   }
 
+  /**
+   * Describes the component which owns this file (for error messages).
+   * @internal
+   */
+  public _describeOwner() {
+    const owner = this._owner ? `${this._owner.constructor.name} (${this.constructor.name})` : this.constructor.name;
+    return `${owner} of project "${this.project.name}"`;
+  }
+
+  /**
+   * Verifies that no other file in the project tree has the same path. This
+   * happens when the file is created and again during validation, when the
+   * components which own the files (see `Component.own()`) are known.
+   * @internal
+   */
+  public _validateUnique(): string[] {
+    const existing = this.project.root.tryFindFile(this.absolutePath);
+    if (!existing || existing === this) {
+      return [];
+    }
+
+    return [`there is already a file under ${path.relative(this.project.root.outdir, this.absolutePath)}: `
+      + `${existing._describeOwner()} conflicts with ${this._describeOwner()}. `
+      + 'Use "project.tryRemoveFile()" to take over the file (and "ObjectFile.merge()" to keep its content)'];
+  }
+
   /**
    * Implemented by derived classes and returns the contents of the file to
    * emit.
@@ -114,14 +137,30 @@ export abstract class FileBase extends Component {
     const outdir = this.project.outdir;
     const filePath = path.join(outdir, this.path);
     const resolver: IResolver = { resolve: (obj, options) => resolve(obj, options) };
-    const content = this.synthesizeContent(resolver);
-    if (content === undefined) {
+    const synthesized = this.synthesizeContent(resolver);
+    if (synthesized === undefined) {
       return; // skip
     }
-    writeFile(filePath, content, {
-      readonly: this.readonly,
+
+    // ejected files are no longer managed by projen, so they can be edited
+    const ejected = this.project.ejected;
+    const content = ejected ? removeMarker(synthesized) : synthesized;
+
+    const options = {
+      readonly: this.readonly && !ejected,
       executable: this.executable,
-    });
+    };
+
+    // in dry-run mode, just record what we would have written
+    const pendingChanges = this.project._pendingChanges;
+    if (pendingChanges) {
+      pendingChanges.addFile(filePath, content, options);
+      return;
+    }
+
+    writeFile(filePath, content, options);
+
+    this.project.hooks._emit(SynthesisEventType.FILE_WRITTEN, this);
   }
 }
 
@@ -161,3 +200,16 @@ export interface IResolvable {
    */
   toJSON(): any;
 }
+
+/**
+ * Removes all lines which include the projen marker (and any empty lines they
+ * leave at the beginning of the content).
+ */
+function removeMarker(content: string) {
+  const lines = content.split('\n').filter(line => !line.includes(PROJEN_MARKER));
+  while (lines.length > 1 && lines[0].trim() === '') {
+    lines.shift();
+  }
+
+  return lines.join('\n');
+}
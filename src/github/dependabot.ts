@@ -160,10 +160,10 @@ export class Dependabot extends Component {
       ],
     };
 
-    new YamlFile(project, '.github/dependabot.yml', {
+    this.own(new YamlFile(project, '.github/dependabot.yml', {
       obj: this.config,
       committed: true,
-    });
+    }));
 
     if (options.autoMerge ?? true) {
       github.mergify?.addRule({
@@ -33,6 +33,7 @@ export class Mergify extends Component {
           pull_request_rules: this.rules,
         },
       });
+      this.own(this.yamlFile);
     }
   }
 }
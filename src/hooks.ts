@@ -0,0 +1,110 @@
+import { FileBase } from './file';
+import { Project } from './project';
+
+/**
+ * Types of synthesis events.
+ */
+export enum SynthesisEventType {
+  /**
+   * Emitted after all components were pre-synthesized, right before generated
+   * files are deleted.
+   */
+  BEFORE_CLEANUP = 'before-cleanup',
+
+  /**
+   * Emitted after all subprojects were synthesized and before the components
+   * of the project are synthesized.
+   */
+  AFTER_SUBPROJECTS = 'after-subprojects',
+
+  /**
+   * Emitted after a file was written to disk.
+   */
+  FILE_WRITTEN = 'file-written',
+}
+
+/**
+ * An event emitted during synthesis.
+ */
+export interface SynthesisEvent {
+  /**
+   * The type of the event.
+   */
+  readonly type: SynthesisEventType;
+
+  /**
+   * The project which emitted the event.
+   */
+  readonly project: Project;
+
+  /**
+   * The file that was written (for `FILE_WRITTEN` events).
+   *
+   * @default - not a file event
+   */
+  readonly file?: FileBase;
+}
+
+/**
+ * Handles synthesis events.
+ */
+export interface ISynthesisListener {
+  /**
+   * Called when an event is emitted.
+   * @param event The event
+   */
+  handle(event: SynthesisEvent): void;
+}
+
+/**
+ * A registry of listeners for the synthesis events of a project. Listeners are
+ * called in the order they were registered.
+ *
+ * Available through `project.hooks`.
+ */
+export class ProjectHooks {
+  private readonly listeners: { [type: string]: ISynthesisListener[] } = {};
+
+  constructor(private readonly project: Project) {
+  }
+
+  /**
+   * Registers a listener which is called right before generated files are
+   * deleted (after all components were pre-synthesized).
+   */
+  public onBeforeCleanup(listener: ISynthesisListener) {
+    this.on(SynthesisEventType.BEFORE_CLEANUP, listener);
+  }
+
+  /**
+   * Registers a listener which is called after all subprojects were
+   * synthesized.
+   */
+  public onAfterSubprojects(listener: ISynthesisListener) {
+    this.on(SynthesisEventType.AFTER_SUBPROJECTS, listener);
+  }
+
+  /**
+   * Registers a listener which is called after each file of the project was
+   * written to disk. Not called in dry-run mode.
+   */
+  public onFileWritten(listener: ISynthesisListener) {
+    this.on(SynthesisEventType.FILE_WRITTEN, listener);
+  }
+
+  /**
+   * Emits an event to all listeners of its type.
+   * @internal
+   */
+  public _emit(type: SynthesisEventType, file?: FileBase) {
+    for (const listener of this.listeners[type] ?? []) {
+      listener.handle({ type, project: this.project, file });
+    }
+  }
+
+  private on(type: SynthesisEventType, listener: ISynthesisListener) {
+    const listeners = this.listeners[type] ?? [];
+    listeners.push(listener);
+    this.listeners[type] = listeners;
+  }
+}
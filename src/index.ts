@@ -9,6 +9,7 @@ export * from './docker-compose';
 export * from './eslint';
 export * from './file';
 export * from './gitpod';
+export * from './hooks';
 export * from './ignore-file';
 export * from './ini';
 export * from './jest';
@@ -22,6 +23,7 @@ export * from './node-project';
 export * from './object-file';
 export * from './option-hints';
 export * from './project';
+export * from './projenrc-json';
 export * from './readme';
 export * from './sample-file';
 export * from './semver';
@@ -5,9 +5,25 @@ import * as fs from 'fs-extra';
 const decamelize = require('decamelize');
 const PROJEN_MODULE_ROOT = path.join(__dirname, '..');
 const PROJECT_BASE_FQN = 'projen.Project';
+const COMPONENT_BASE_FQN = 'projen.Component';
 
 type JsiiTypes = { [name: string]: JsiiType };
 
+/**
+ * A reference to a jsii type (e.g. the type of a property).
+ */
+export interface JsiiTypeReference {
+  primitive?: string;
+  fqn?: string;
+  collection?: {
+    kind: string; // 'array' or 'map'
+    elementtype: JsiiTypeReference;
+  };
+  union?: {
+    types: JsiiTypeReference[];
+  };
+}
+
 export interface ProjectOption {
   path: string[];
   name: string;
@@ -15,6 +31,7 @@ export interface ProjectOption {
   switch: string;
   type: string;
   kind?: string;
+  collection?: JsiiTypeReference['collection'];
   parent: string;
   docs?: string;
   default?: string;
@@ -33,6 +50,33 @@ export interface ProjectType {
   docsurl: string;
 }
 
+export interface ComponentType {
+  moduleName: string;
+  fqn: string;
+  typename: string;
+  docs?: string;
+  docsurl: string;
+
+  /**
+   * The FQN of the type of the first constructor parameter (e.g.
+   * `projen.Project` or `projen.github.GitHub`).
+   */
+  scope: string;
+
+  /**
+   * The constructor parameters after the scope: primitives followed by an
+   * optional options struct.
+   */
+  parameters: ComponentParameter[];
+}
+
+export interface ComponentParameter {
+  name: string;
+  type: string; // a primitive (e.g. 'string') or the FQN of a struct
+  optional?: boolean;
+  docs?: string;
+}
+
 interface JsiiType {
   name: string;
   assembly: string;
@@ -40,11 +84,14 @@ interface JsiiType {
   abstract?: boolean;
   base?: string;
   fqn: string;
+  datatype?: boolean;
   interfaces?: string[];
   initializer?: {
     parameters?: Array<{
       name: string;
-      type?: { fqn?: string };
+      type?: JsiiTypeReference;
+      optional?: boolean;
+      docs?: { summary?: string };
     }>;
   };
   properties?: Array<{
@@ -57,10 +104,7 @@ interface JsiiType {
       custom?: { [name: string]: string };
     };
     optional?: boolean;
-    type?: {
-      primitive?: string;
-      fqn?: string;
-    };
+    type?: JsiiTypeReference;
   }>;
   docs?: {
     summary?: string;
@@ -69,6 +113,9 @@ interface JsiiType {
       pjid?: string;
     };
   };
+  members?: Array<{
+    name: string;
+  }>;
 }
 
 /**
@@ -79,6 +126,81 @@ interface JsiiType {
  * @param moduleDirs A list of npm module directories
  */
 export function discover(...moduleDirs: string[]) {
+  const jsii = readJsiiTypes(moduleDirs);
+
+  const result = new Array<ProjectType>();
+
+  for (const fqn of Object.keys(jsii)) {
+    const p = toProjectType(jsii, fqn);
+    if (!p) {
+      continue;
+    }
+
+    result.push(p);
+  }
+
+  return result.sort((r1, r2) => r1.pjid.localeCompare(r2.pjid));
+}
+
+/**
+ * Returns a list of components exported by the modules defined in
+ * `moduleDirs` (and projen itself) which can be added to a project: concrete
+ * subclasses of `projen.Component` whose constructor accepts a scope and an
+ * optional options struct.
+ *
+ * @param moduleDirs A list of npm module directories
+ */
+export function discoverComponents(...moduleDirs: string[]) {
+  const jsii = readJsiiTypes(moduleDirs);
+
+  const result = new Array<ComponentType>();
+
+  for (const fqn of Object.keys(jsii)) {
+    const c = toComponentType(jsii, fqn);
+    if (!c) {
+      continue;
+    }
+
+    result.push(c);
+  }
+
+  return result.sort((c1, c2) => c1.typename.localeCompare(c2.typename));
+}
+
+/**
+ * Returns how a component scope (e.g. `projen.github.GitHub`) is reached from
+ * a project of a certain type: `{}` if the project itself is a scope of that
+ * type, the property of the project which holds the scope (e.g.
+ * `{ property: "github", optional: true }`) or `undefined` if it cannot be
+ * reached.
+ *
+ * @param projectFqn The FQN of the project type
+ * @param scopeFqn The FQN of the scope type
+ * @param moduleDirs A list of npm module directories
+ */
+export function resolveComponentScope(projectFqn: string, scopeFqn: string, ...moduleDirs: string[]) {
+  const jsii = readJsiiTypes(moduleDirs);
+
+  if (isSubclass(jsii, projectFqn, scopeFqn)) {
+    return {};
+  }
+
+  for (let curr: JsiiType | undefined = jsii[projectFqn]; curr; curr = curr.base ? jsii[curr.base] : undefined) {
+    for (const prop of curr.properties ?? []) {
+      if (prop.type?.fqn && isSubclass(jsii, prop.type.fqn, scopeFqn)) {
+        return { property: prop.name, optional: prop.optional };
+      }
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Reads all .jsii manifests from all modules (incl. projen itself) and merges
+ * them all into a single map of fqn->type.
+ */
+function readJsiiTypes(moduleDirs: string[]) {
   const jsii: JsiiTypes = {};
 
   const discoverJsii = (dir: string) => {
@@ -91,8 +213,6 @@ export function discover(...moduleDirs: string[]) {
     }
   };
 
-  // read all .jsii manifests from all modules (incl. projen itself) and merge
-  // them all into a single map of fqn->type.
   for (const dir of [...moduleDirs, PROJEN_MODULE_ROOT]) {
     discoverJsii(dir);
 
@@ -104,21 +224,17 @@ export function discover(...moduleDirs: string[]) {
     }
   }
 
-  const result = new Array<ProjectType>();
+  return jsii;
+}
 
-  for (const fqn of Object.keys(jsii)) {
-    const p = toProjectType(jsii, fqn);
-    if (!p) {
-      continue;
-    }
+const resolvedProjectTypes = new Map<string, ProjectType | undefined>();
 
-    result.push(p);
+export function resolveProjectType(projectFqn: string) {
+  // project types are resolved whenever a project is created
+  if (resolvedProjectTypes.has(projectFqn)) {
+    return resolvedProjectTypes.get(projectFqn);
   }
 
-  return result.sort((r1, r2) => r1.pjid.localeCompare(r2.pjid));
-}
-
-export function resolveProjectType(projectFqn: string) {
   const manifest = readJsiiManifest(projectFqn);
 
   const jsii: JsiiTypes = {};
@@ -132,7 +248,54 @@ export function resolveProjectType(projectFqn: string) {
     jsii[fqn] = type;
   }
 
-  return toProjectType(jsii, projectFqn);
+  const type = toProjectType(jsii, projectFqn);
+  resolvedProjectTypes.set(projectFqn, type);
+  return type;
+}
+
+function toComponentType(jsii: JsiiTypes, fqn: string) {
+  if (fqn === COMPONENT_BASE_FQN || !isConcreteSubclass(jsii, fqn, COMPONENT_BASE_FQN)) {
+    return undefined;
+  }
+
+  const typeinfo = jsii[fqn];
+  const [scope, ...params] = typeinfo.initializer?.parameters ?? [];
+
+  // the component must be created with a scope, primitives and an options struct
+  if (!scope?.type?.fqn || jsii[scope.type.fqn]?.kind !== 'class') {
+    return undefined;
+  }
+
+  const parameters = new Array<ComponentParameter>();
+  for (const [i, param] of params.entries()) {
+    const primitive = param.type?.primitive;
+    const struct = param.type?.fqn && jsii[param.type.fqn]?.datatype ? param.type.fqn : undefined;
+    const isLast = i === params.length - 1;
+    if (!(primitive && ['string', 'number', 'boolean'].includes(primitive)) && !(struct && isLast)) {
+      return undefined;
+    }
+
+    parameters.push(filterUndefined({
+      name: param.name,
+      type: primitive ?? struct,
+      optional: param.optional,
+      docs: param.docs?.summary,
+    }));
+  }
+
+  // projen.vscode.VsCodeLaunchConfig -> vscode.VsCodeLaunchConfig
+  const typename = fqn.substring(fqn.indexOf('.') + 1);
+
+  const docsurl = `https://github.com/projen/projen/blob/master/API.md#projen-${typename.toLocaleLowerCase()}`;
+  return filterUndefined({
+    moduleName: typeinfo.assembly,
+    typename,
+    fqn,
+    docs: typeinfo.docs?.summary,
+    docsurl,
+    scope: scope.type.fqn,
+    parameters,
+  }) as ComponentType;
 }
 
 function toProjectType(jsii: JsiiTypes, fqn: string) {
@@ -158,14 +321,308 @@ function toProjectType(jsii: JsiiTypes, fqn: string) {
   } as ProjectType;
 }
 
+/**
+ * Renders a JSON Schema (draft-07) for the options of a project type. It can be
+ * used to validate declarative projenrc files (which also include the FQN of
+ * the project type under `type`) and `newProject` args.
+ *
+ * Enum options are specified by the name of the enum member.
+ */
+export function renderProjectSchema(type: ProjectType): any {
+  const properties: { [name: string]: any } = {
+    $schema: { description: 'The JSON Schema of the file (ignored by projen)', type: 'string' },
+    type: { description: 'The jsii FQN of the project type', const: type.fqn },
+  };
+
+  for (const option of type.options) {
+    properties[option.name] = renderOptionSchema(option);
+  }
+
+  const required = type.options.filter(o => !o.optional).map(o => o.name);
+
+  return filterUndefined({
+    $schema: 'http://json-schema.org/draft-07/schema#',
+    title: type.typename,
+    description: type.docs,
+    type: 'object',
+    properties,
+    required: required.length > 0 ? required : undefined,
+    additionalProperties: false,
+  });
+}
+
+function renderOptionSchema(option: ProjectOption) {
+  return filterUndefined({
+    description: option.docs,
+    ...renderTypeSchema(optionTypeRef(option), []),
+    default: parseDefault(option),
+    deprecated: option.deprecated,
+  });
+}
+
+/**
+ * Renders the JSON schema of a jsii type. Structs are rendered with their
+ * properties, except for structs which (directly or indirectly) contain
+ * themselves, which are only rendered as objects.
+ *
+ * @param typeRef The jsii type
+ * @param structs The FQNs of the structs which contain this type
+ */
+function renderTypeSchema(typeRef: JsiiTypeReference, structs: string[]): any {
+  if (typeRef.primitive) {
+    switch (typeRef.primitive) {
+      case 'string':
+      case 'number':
+      case 'boolean':
+        return { type: typeRef.primitive };
+      case 'date':
+        return { type: 'string', format: 'date-time' };
+      case 'json':
+        return { type: 'object' };
+      default: // "any"
+        return {};
+    }
+  }
+
+  if (typeRef.collection?.kind === 'array') {
+    return { type: 'array', items: renderTypeSchema(typeRef.collection.elementtype, structs) };
+  }
+
+  if (typeRef.collection?.kind === 'map') {
+    return { type: 'object', additionalProperties: renderTypeSchema(typeRef.collection.elementtype, structs) };
+  }
+
+  if (typeRef.union) {
+    return { anyOf: typeRef.union.types.map(t => renderTypeSchema(t, structs)) };
+  }
+
+  const type = typeRef.fqn ? tryResolveJsiiType(typeRef.fqn) : undefined;
+  if (!type) {
+    return {};
+  }
+
+  if (type.kind === 'enum') {
+    return { enum: type.members?.map(m => m.name) ?? [] };
+  }
+
+  if (type.kind !== 'interface' || !type.datatype) {
+    return {};
+  }
+
+  if (structs.includes(type.fqn)) {
+    return { type: 'object' };
+  }
+
+  const properties: { [name: string]: any } = {};
+  const required = new Array<string>();
+  for (const prop of Object.values(structProperties(type))) {
+    properties[prop.name] = filterUndefined({
+      description: prop.docs?.summary,
+      ...prop.type ? renderTypeSchema(prop.type, [...structs, type.fqn]) : {},
+      deprecated: prop.docs?.deprecated !== undefined ? true : undefined,
+    });
+
+    if (!prop.optional) {
+      required.push(prop.name);
+    }
+  }
+
+  return filterUndefined({
+    type: 'object',
+    properties,
+    required: required.length > 0 ? required : undefined,
+    additionalProperties: false,
+  });
+}
+
+/**
+ * Returns the names of the members of an enum (or `undefined` if the jsii
+ * manifest of the enum cannot be read).
+ */
+export function tryReadEnumMembers(fqn: string): string[] | undefined {
+  return tryResolveJsiiType(fqn)?.members?.map(m => m.name);
+}
+
+/**
+ * Validates the value of a project option (e.g. parsed from JSON) against the
+ * jsii type of the option. Types which cannot be resolved are not validated.
+ *
+ * @returns an error message or `undefined` if the value is valid
+ */
+export function validateOptionValue(option: ProjectOption, value: any): string | undefined {
+  return validateValue(value, optionTypeRef(option), option.name);
+}
+
+/**
+ * Returns the jsii type of a project option.
+ */
+function optionTypeRef(option: ProjectOption): JsiiTypeReference {
+  if (option.collection) {
+    return { collection: option.collection };
+  } else if (option.fqn) {
+    return { fqn: option.fqn };
+  } else {
+    return { primitive: option.type };
+  }
+}
+
+/**
+ * Validates a value (e.g. parsed from JSON) against a jsii type.
+ *
+ * @param value The value
+ * @param typeRef The jsii type
+ * @param name The name of the value (used in error messages)
+ * @returns an error message or `undefined` if the value is valid
+ */
+export function validateValue(value: any, typeRef: JsiiTypeReference, name: string): string | undefined {
+  const isObject = (x: any) => typeof x === 'object' && x !== null && !Array.isArray(x);
+
+  if (typeRef.primitive) {
+    switch (typeRef.primitive) {
+      case 'string':
+      case 'number':
+      case 'boolean':
+        return typeof value === typeRef.primitive && !Number.isNaN(value) ? undefined : `${name} must be a ${typeRef.primitive}`;
+      case 'date':
+        return typeof value === 'string' ? undefined : `${name} must be a date string`;
+      default: // "json" and "any"
+        return undefined;
+    }
+  }
+
+  if (typeRef.collection?.kind === 'array') {
+    if (!Array.isArray(value)) {
+      return `${name} must be an array`;
+    }
+
+    const errors = value.map((element, i) => validateValue(element, typeRef.collection!.elementtype, `${name}[${i}]`));
+    return errors.find(e => e);
+  }
+
+  if (typeRef.collection?.kind === 'map') {
+    if (!isObject(value)) {
+      return `${name} must be an object`;
+    }
+
+    const errors = Object.entries(value).map(([k, v]) => validateValue(v, typeRef.collection!.elementtype, `${name}.${k}`));
+    return errors.find(e => e);
+  }
+
+  if (typeRef.union) {
+    const errors = typeRef.union.types.map(t => validateValue(value, t, name));
+    return errors.some(e => !e) ? undefined : `${name} does not match any of the types of the union`;
+  }
+
+  if (!typeRef.fqn) {
+    return undefined;
+  }
+
+  const type = tryResolveJsiiType(typeRef.fqn);
+  if (!type) {
+    return undefined;
+  }
+
+  if (type.kind === 'enum') {
+    // enum values are the lower-case names of their members (e.g. "lib" or "LIB" for `ProjectType.LIB`)
+    const members = type.members?.map(m => m.name) ?? [];
+    const valid = typeof value === 'string' && members.includes(value.toUpperCase().replace(/-/g, '_'));
+    return valid ? undefined : `${name} must be one of: ${members.join(', ')}`;
+  }
+
+  if (type.kind !== 'interface' || !type.datatype) {
+    return `${name} is a ${type.name} which cannot be specified as a value`;
+  }
+
+  if (!isObject(value)) {
+    return `${name} must be an object`;
+  }
+
+  const properties = structProperties(type);
+  for (const [propName, propValue] of Object.entries(value)) {
+    const prop = properties[propName];
+    if (!prop) {
+      return `${name}.${propName} is not a property of ${type.name}`;
+    }
+
+    const error = prop.type ? validateValue(propValue, prop.type, `${name}.${propName}`) : undefined;
+    if (error) {
+      return error;
+    }
+  }
+
+  for (const prop of Object.values(properties)) {
+    if (!prop.optional && value[prop.name] === undefined) {
+      return `${name}.${prop.name} is required`;
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Returns the properties of a struct, including the properties of the structs
+ * it extends.
+ */
+function structProperties(struct: JsiiType) {
+  const properties: { [name: string]: NonNullable<JsiiType['properties']>[0] } = {};
+
+  for (const base of struct.interfaces ?? []) {
+    const baseType = tryResolveJsiiType(base);
+    if (baseType) {
+      Object.assign(properties, structProperties(baseType));
+    }
+  }
+
+  for (const prop of struct.properties ?? []) {
+    properties[prop.name] = prop;
+  }
+
+  return properties;
+}
+
+function tryResolveJsiiType(fqn: string): JsiiType | undefined {
+  try {
+    return readJsiiManifest(fqn).types[fqn];
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Returns the `@default` of an option if it is a literal of the option's type
+ * (defaults such as "- current version" are only documentation).
+ */
+function parseDefault(option: ProjectOption) {
+  if (option.default === undefined) {
+    return undefined;
+  }
+
+  try {
+    const value = JSON.parse(option.default);
+    return typeof value === option.type ? value : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+const jsiiManifests = new Map<string, any>();
+
+/**
+ * Reads the jsii manifest of the module of a type. Manifests are large, so
+ * they are read once per module.
+ */
 export function readJsiiManifest(jsiiFqn: string): any {
   let [moduleName] = jsiiFqn.split('.');
   if (moduleName === 'projen') {
     moduleName = PROJEN_MODULE_ROOT;
   }
 
-  const jsiiManifestFile = require.resolve(`${moduleName}/.jsii`);
-  return fs.readJsonSync(jsiiManifestFile);
+  if (!jsiiManifests.has(moduleName)) {
+    const jsiiManifestFile = require.resolve(`${moduleName}/.jsii`);
+    jsiiManifests.set(moduleName, fs.readJsonSync(jsiiManifestFile));
+  }
+
+  return jsiiManifests.get(moduleName);
 }
 
 function discoverOptions(jsii: JsiiTypes, fqn: string): ProjectOption[] {
@@ -237,6 +694,7 @@ function discoverOptions(jsii: JsiiTypes, fqn: string): ProjectOption[] {
         docs: prop.docs.summary,
         type: typeName,
         kind: jsiiKind,
+        collection: prop.type?.collection,
         switch: propPath.map(p => decamelize(p).replace(/_/g, '-')).join('-'),
         default: defaultValue,
         optional: isOptional,
@@ -262,6 +720,14 @@ function filterUndefined(obj: any) {
 }
 
 function isProjectType(jsii: JsiiTypes, fqn: string) {
+  return isConcreteSubclass(jsii, fqn, PROJECT_BASE_FQN);
+}
+
+/**
+ * Indicates if a type is a class which extends `baseFqn` (directly or
+ * indirectly) and is neither abstract nor deprecated.
+ */
+function isConcreteSubclass(jsii: JsiiTypes, fqn: string, baseFqn: string) {
   const type = jsii[fqn];
 
   if (type.kind !== 'class') {
@@ -275,9 +741,20 @@ function isProjectType(jsii: JsiiTypes, fqn: string) {
     return false;
   }
 
-  let curr = type;
+  return isSubclass(jsii, fqn, baseFqn);
+}
+
+/**
+ * Indicates if a class is `baseFqn` or extends it (directly or indirectly).
+ */
+function isSubclass(jsii: JsiiTypes, fqn: string, baseFqn: string) {
+  let curr = jsii[fqn];
+  if (!curr) {
+    return false;
+  }
+
   while (true) {
-    if (curr.fqn === PROJECT_BASE_FQN) {
+    if (curr.fqn === baseFqn) {
       return true;
     }
 
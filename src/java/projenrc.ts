@@ -1,9 +1,10 @@
 import { dirname, join } from 'path';
-import { existsSync, mkdirpSync, writeFileSync } from 'fs-extra';
+import { existsSync, mkdirpSync, removeSync, writeFileSync } from 'fs-extra';
 import { PROJEN_VERSION } from '../common';
 import { Component } from '../component';
 import { DependencyType } from '../deps';
 import { readJsiiManifest } from '../inventory';
+import { ProjenrcLanguage, renderProjectOptions } from '../javascript/render-options';
 import { Project } from '../project';
 import { Pom } from './pom';
 
@@ -67,6 +68,12 @@ export class Projenrc extends Component {
     const execOpts = this.testScope ? ' -Dexec.classpathScope="test"' : '';
     const compileGoal = this.testScope ? 'compiler:testCompile' : 'compiler:compile';
 
+    // ejected projects are no longer synthesized by projen (the file is
+    // removed during synthesis)
+    if (project.ejected) {
+      return;
+    }
+
     project.deps.addDependency(`com.github.eladb/projen@${projenVersion}`, depType);
     pom.addPlugin('org.codehaus.mojo/exec-maven-plugin@3.0.0');
 
@@ -79,6 +86,12 @@ export class Projenrc extends Component {
     this.generateProjenrc();
   }
 
+  public synthesize() {
+    if (this.project.ejected) {
+      removeSync(this.resolveJavaClass().javaFile);
+    }
+  }
+
   private generateProjenrc() {
     const bootstrap = this.project.newProject;
     if (!bootstrap) {
@@ -99,18 +112,7 @@ export class Projenrc extends Component {
       return;
     }
 
-    const dir = this.testScope ? 'src/test/java' : 'src/main/java';
-    const split = this.className.split('.');
-    let javaClass: string, javaPackage: string[];
-    if (split.length === 1) {
-      javaClass = split[0];
-      javaPackage = [];
-    } else {
-      javaPackage = split.slice(0, split.length - 2);
-      javaClass = split[split.length - 1];
-    }
-
-    const javaFile = join(this.project.outdir, dir, ...javaPackage, javaClass + '.java');
+    const { javaFile, javaPackage, javaClass } = this.resolveJavaClass();
 
     // skip if file exists
     if (existsSync(javaFile)) {
@@ -124,24 +126,23 @@ export class Projenrc extends Component {
     const openBlock = (line: string = '') => { emit(line + ' {'); indent++; };
     const closeBlock = () => { indent--; emit('}'); };
 
-    const optionFqns: Record<string, string> = {};
-    for (const option of bootstrap.type.options) {
-      if (option.fqn) {
-        optionFqns[option.name] = toJavaFullTypeName(jsiiManifest.types[option.fqn]);
-      }
-    }
-
     if (javaPackage.length > 0) {
       emit(`package ${javaPackage.join('.')};`);
       emit();
     }
 
-    const { renderedOptions, imports } = renderJavaOptions(2, jsiiOptionsType.name, optionFqns, bootstrap.args);
+    const { renderedOptions, imports } = renderProjectOptions({
+      language: ProjenrcLanguage.JAVA,
+      optionsTypeName: jsiiOptionsType.name,
+      args: bootstrap.args,
+      type: bootstrap.type,
+      comments: bootstrap.comments,
+    });
 
     emit(`import ${javaTarget.package}.${toJavaFullTypeName(jsiiType)};`);
     emit(`import ${javaTarget.package}.${toJavaFullTypeName(jsiiOptionsType)};`);
-    for (const optionTypeName of imports) {
-      emit(`import ${javaTarget.package}.${optionTypeName};`);
+    for (const fqn of imports) {
+      emit(`import ${javaTarget.package}.${toJavaFullTypeName(jsiiManifest.types[fqn])};`);
     }
     emit();
     openBlock(`public class ${javaClass}`);
@@ -156,40 +157,21 @@ export class Projenrc extends Component {
 
     this.project.logger.info(`Project definition file was created at ${javaFile}`);
   }
-}
 
-function renderJavaOptions(indent: number, optionsTypeName: string, optionFqns: Record<string, string>, initOptions?: Record<string, any>) {
-  const imports = new Set<string>();
-  if (!initOptions || Object.keys(initOptions).length === 0) {
-    return { renderedOptions: '', imports }; // no options
-  }
-
-  const lines = [`${optionsTypeName}.builder()`];
-
-  for (const [name, value] of Object.entries(initOptions)) {
-    const { javaValue, importName } = toJavaValue(value, name, optionFqns);
-    if (importName) imports.add(importName);
-    lines.push(`.${toJavaProperty(name)}(${javaValue})`);
-  }
-
-  lines.push('.build()');
-
-  const renderedOptions = lines.join(`\n${' '.repeat((indent + 1) * 4)}`);
-  return { renderedOptions, imports };
-}
-
-function toJavaProperty(prop: string) {
-  return prop;
-}
+  private resolveJavaClass() {
+    const dir = this.testScope ? 'src/test/java' : 'src/main/java';
+    const split = this.className.split('.');
+    let javaClass: string, javaPackage: string[];
+    if (split.length === 1) {
+      javaClass = split[0];
+      javaPackage = [];
+    } else {
+      javaPackage = split.slice(0, split.length - 2);
+      javaClass = split[split.length - 1];
+    }
 
-function toJavaValue(value: any, name: string, optionFqns: Record<string, string>) {
-  if (typeof value === 'string' && optionFqns[name] !== undefined) {
-    const parts = optionFqns[name].split('.');
-    const base = parts[parts.length - 1];
-    const choice = String(value).toUpperCase().replace('-', '_');
-    return { javaValue: `${base}.${choice}`, importName: optionFqns[name] };
-  } else {
-    return { javaValue: JSON.stringify(value) };
+    const javaFile = join(this.project.outdir, dir, ...javaPackage, javaClass + '.java');
+    return { javaFile, javaPackage, javaClass };
   }
 }
 
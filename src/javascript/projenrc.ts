@@ -1,7 +1,7 @@
-import { existsSync, writeFileSync } from 'fs';
 import { resolve } from 'path';
+import { existsSync, removeSync, writeFileSync } from 'fs-extra';
 import { Component } from '../component';
-import { renderJavaScriptOptions } from '../javascript/render-options';
+import { ProjenrcLanguage, renderProjectOptions } from '../javascript/render-options';
 import { NodeProject } from '../node-project';
 import { Project } from '../project';
 export interface ProjenrcOptions {
@@ -23,12 +23,24 @@ export class Projenrc extends Component {
 
     this.rcfile = options.filename ?? '.projenrc.js';
 
+    // ejected projects are no longer synthesized by projen (the file is
+    // removed during synthesis)
+    if (project.ejected) {
+      return;
+    }
+
     // this is the task projen executes when running `projen`
     project.addTask(NodeProject.DEFAULT_TASK, { exec: `node ${this.rcfile}` });
 
     this.generateProjenrc();
   }
 
+  public synthesize() {
+    if (this.project.ejected) {
+      removeSync(resolve(this.project.outdir, this.rcfile));
+    }
+  }
+
   private generateProjenrc() {
     const rcfile = resolve(this.project.outdir, this.rcfile);
     if (existsSync(rcfile)) {
@@ -45,16 +57,18 @@ export class Projenrc extends Component {
     const importName = parts[1];
     const className = parts.slice(1).join('.');
 
-    const { renderedOptions, imports } = renderJavaScriptOptions({
+    const { renderedOptions, imports } = renderProjectOptions({
+      language: ProjenrcLanguage.JAVASCRIPT,
       comments: bootstrap.comments,
       args: bootstrap.args,
       type: bootstrap.type,
     });
 
-    imports.add(importName);
+    // enums are imported through their submodule (e.g. `web.MyEnum`)
+    const importNames = new Set([importName, ...[...imports].map(fqn => fqn.split('.')[1])]);
 
     const lines = new Array<string>();
-    lines.push(`const { ${[...imports].sort().join(', ')} } = require('${moduleName}');`);
+    lines.push(`const { ${[...importNames].sort().join(', ')} } = require('${moduleName}');`);
     lines.push();
     lines.push(`const project = new ${className}(${renderedOptions});`);
     lines.push();
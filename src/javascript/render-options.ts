@@ -1,8 +1,20 @@
 import * as inventory from '../inventory';
 import { NewProjectOptionHints } from '../option-hints';
 
-const PROJEN_NEW = '__new__';
-const TAB = makePadding(2);
+export const PROJEN_NEW = '__new__';
+
+// eslint-disable-next-line @typescript-eslint/no-require-imports
+const decamelize = require('decamelize');
+
+/**
+ * Languages in which project options can be rendered.
+ */
+export enum ProjenrcLanguage {
+  JAVASCRIPT = 'javascript',
+  TYPESCRIPT = 'typescript',
+  PYTHON = 'python',
+  JAVA = 'java',
+}
 
 /**
  * Options for `renderProjectOptions`.
@@ -13,6 +25,20 @@ export interface RenderProjectOptions {
    */
   readonly type: inventory.ProjectType;
 
+  /**
+   * The language of the projenrc file.
+   * @default ProjenrcLanguage.JAVASCRIPT
+   */
+  readonly language?: ProjenrcLanguage;
+
+  /**
+   * The name of the options type of the project type, which is used to create
+   * an options builder in Java (e.g. `JavaProjectOptions`).
+   *
+   * @default - the name of the project type followed by "Options"
+   */
+  readonly optionsTypeName?: string;
+
   /**
    * Project arguments as passed to `projen new`.
    */
@@ -28,7 +54,7 @@ export interface RenderProjectOptions {
    * Inject a `__new__` attribute to the project constructor with a stringified
    * version of the project parameters and a `jsiiFqn` attribute that includes
    * the FQN of the project type. This is needed in order to generate initial
-   * projenrc files.
+   * projenrc files. Only supported in JavaScript.
    *
    * @default false
    */
@@ -86,65 +112,162 @@ export function resolveNewProject(opts: any) {
 }
 
 /**
- * Prints all parameters that can be used in a project type, alongside their descriptions.
+ * The syntax of the options of a project type in a projenrc language.
+ */
+interface OptionsSyntax {
+  /**
+   * The indentation of each rendered option.
+   */
+  readonly indent: string;
+
+  /**
+   * Renders an option assignment (e.g. `name: 'foo',`).
+   */
+  renderOption(name: string, value: string): string;
+
+  /**
+   * Renders a commented out line (e.g. `// name: 'foo',`).
+   */
+  renderComment(line: string): string;
+
+  /**
+   * Renders documentation next to an option (e.g. as a trailing comment).
+   */
+  renderDocs(docs: string): string;
+
+  /**
+   * Renders a value.
+   */
+  renderValue(value: any): string;
+
+  /**
+   * Renders the "@default" of an option, which is documented in JavaScript.
+   */
+  renderDefault(defaultValue?: string): string;
+
+  /**
+   * Renders a member of an enum.
+   *
+   * @param fqn The jsii FQN of the enum (e.g. `projen.web.MyEnum`)
+   * @param member The name of the enum member (e.g. `CUSTOM_VALUE`)
+   */
+  renderEnum(fqn: string, member: string): string;
+
+  /**
+   * Wraps the rendered options so they can be passed to the project
+   * constructor.
+   */
+  wrap(lines: string[], optionsTypeName: string): string;
+}
+
+const JAVASCRIPT_SYNTAX: OptionsSyntax = {
+  indent: makePadding(2),
+  renderOption: (name, value) => `${name}: ${value},`,
+  renderComment: line => `// ${line}`,
+  renderDocs: docs => `/* ${docs} */`,
+  renderValue: value => toJavaScriptValue(value),
+  renderDefault: defaultValue => defaultValue === undefined ? 'undefined' : useSingleQuotes(defaultValue),
+  renderEnum: (fqn, member) => `${fqn.split('.').slice(1).join('.')}.${member}`, // -> web.MyEnum.CUSTOM_VALUE
+  wrap: lines => ['{', ...lines, '}'].join('\n'),
+};
+
+const PYTHON_SYNTAX: OptionsSyntax = {
+  indent: makePadding(4),
+  renderOption: (name, value) => `${decamelize(name)}=${value},`,
+  renderComment: line => `# ${line}`,
+  renderDocs: docs => `# ${docs}`,
+  renderValue: value => toPythonValue(value),
+  renderDefault: defaultValue => translateDefault(defaultValue, toPythonValue),
+  renderEnum: (fqn, member) => `${fqn.split('.').pop()}.${member}`,
+  wrap: lines => lines.length === 0 ? '' : ['', ...lines, ''].join('\n'),
+};
+
+const JAVA_SYNTAX: OptionsSyntax = {
+  // options are rendered inside `main()`
+  indent: makePadding(12),
+  renderOption: (name, value) => `.${name}(${value})`,
+  renderComment: line => `// ${line}`,
+  renderDocs: docs => `// ${docs}`,
+  renderValue: value => toJavaValue(value),
+  renderDefault: defaultValue => translateDefault(defaultValue, toJavaValue),
+  renderEnum: (fqn, member) => `${fqn.split('.').pop()}.${member}`,
+  wrap: (lines, optionsTypeName) => [`${optionsTypeName}.builder()`, ...lines, `${makePadding(12)}.build()`].join('\n'),
+};
+
+const SYNTAX: Record<ProjenrcLanguage, OptionsSyntax> = {
+  [ProjenrcLanguage.JAVASCRIPT]: JAVASCRIPT_SYNTAX,
+  [ProjenrcLanguage.TYPESCRIPT]: JAVASCRIPT_SYNTAX,
+  [ProjenrcLanguage.PYTHON]: PYTHON_SYNTAX,
+  [ProjenrcLanguage.JAVA]: JAVA_SYNTAX,
+};
+
+/**
+ * Prints all parameters that can be used in a project type, alongside their
+ * descriptions, in the syntax of a projenrc language.
  *
- * Parameters in `params` that aren't undefined are rendered as defaults,
- * while all other parameters are rendered as commented out.
+ * Parameters in `args` that aren't undefined are rendered as values, while
+ * parameters selected by `comments` are rendered as commented out.
  *
- * Returns the printed output and a set of required imports as an object
- * in the form { options, imports }.
+ * Returns the printed output and the FQNs of the enums it refers to as an
+ * object in the form { renderedOptions, imports }.
  */
-export function renderJavaScriptOptions(opts: RenderProjectOptions) {
+export function renderProjectOptions(opts: RenderProjectOptions) {
+  const syntax = SYNTAX[opts.language ?? ProjenrcLanguage.JAVASCRIPT];
+  const optionsByName: Record<string, inventory.ProjectOption> = {};
   const renders: Record<string, string> = {};
-  const optionsWithDefaults: string[] = [];
-  const useSingleQuotes = (str: string | undefined) => str?.replace(/"(.+)"/, '\'$1\'');
-  const imports = new Set();
+  const imports = new Set<string>();
 
   for (const option of opts.type.options) {
-    if (option.deprecated) {
+    optionsByName[option.name] = option;
+
+    if (option.deprecated || opts.args[option.name] !== undefined) {
       continue;
     }
 
-    const optionName = option.name;
-
-    if (opts.args[optionName] !== undefined) {
-      const arg = opts.args[optionName];
-      const { js, importName } = renderArgAsJavaScript(arg, option);
-      if (importName) imports.add(importName);
-      renders[optionName] = `${optionName}: ${useSingleQuotes(js)},`;
-      optionsWithDefaults.push(optionName);
-    } else {
-      const defaultValue = option.default?.startsWith('-') ? undefined : (option.default ?? undefined);
-      renders[optionName] = `// ${optionName}: ${useSingleQuotes(defaultValue)},`;
+    const defaultValue = option.default?.startsWith('-') ? undefined : (option.default ?? undefined);
+    renders[option.name] = syntax.renderComment(syntax.renderOption(option.name, syntax.renderDefault(defaultValue)));
+  }
+
+  const optionsWithValues = new Array<string>();
+  for (const [name, arg] of Object.entries(opts.args)) {
+    if (arg === undefined) {
+      continue;
     }
+
+    const { value, importName } = renderArg(syntax, arg, name, optionsByName[name]);
+    if (importName) imports.add(importName);
+    renders[name] = syntax.renderOption(name, value);
+    optionsWithValues.push(name);
   }
 
   const bootstrap = opts.bootstrap ?? false;
   if (bootstrap) {
+    if (syntax !== JAVASCRIPT_SYNTAX) {
+      throw new Error('bootstrap options can only be rendered in JavaScript');
+    }
     renders[PROJEN_NEW] = `${PROJEN_NEW}: ${JSON.stringify({ args: opts.args, fqn: opts.type.fqn, comments: opts.comments } as ProjenNew)},`;
-    optionsWithDefaults.push(PROJEN_NEW);
+    optionsWithValues.push(PROJEN_NEW);
   }
 
   // generate rendering
   const result: string[] = [];
-  result.push('{');
 
-  // render options with defaults
-  optionsWithDefaults.sort();
-  for (const optionName of optionsWithDefaults) {
-    result.push(`${TAB}${renders[optionName]}`);
+  // render options with values
+  optionsWithValues.sort();
+  for (const optionName of optionsWithValues) {
+    result.push(`${syntax.indent}${renders[optionName]}`);
   }
-  if (result.length > 1) {
+  if (result.length > 0) {
     result.push('');
   }
 
-  // render options without defaults as comments
+  // render options without values as comments
   if (opts.comments === NewProjectOptionHints.ALL) {
     const options = opts.type.options.filter((opt) => !opt.deprecated && opts.args[opt.name] === undefined);
-    result.push(...renderCommentedOptionsByModule(renders, options));
+    result.push(...renderCommentedOptionsByModule(syntax, renders, options));
   } else if (opts.comments === NewProjectOptionHints.FEATURED) {
     const options = opts.type.options.filter((opt) => !opt.deprecated && opts.args[opt.name] === undefined && opt.featured);
-    result.push(...renderCommentedOptionsInOrder(renders, options));
+    result.push(...renderCommentedOptionsInOrder(syntax, renders, options));
   } else if (opts.comments === NewProjectOptionHints.NONE) {
     // don't render any extra options
   }
@@ -152,11 +275,12 @@ export function renderJavaScriptOptions(opts: RenderProjectOptions) {
   if (result[result.length - 1] === '') {
     result.pop();
   }
-  result.push('}');
-  return { renderedOptions: result.join('\n'), imports };
+
+  const optionsTypeName = opts.optionsTypeName ?? `${opts.type.typename.split('.').pop()}Options`;
+  return { renderedOptions: syntax.wrap(result, optionsTypeName), imports };
 }
 
-function renderCommentedOptionsByModule(renders: Record<string, string>, options: inventory.ProjectOption[]) {
+function renderCommentedOptionsByModule(syntax: OptionsSyntax, renders: Record<string, string>, options: inventory.ProjectOption[]) {
   const optionsByModule: Record<string, inventory.ProjectOption[]> = {};
 
   for (const option of options) {
@@ -172,53 +296,116 @@ function renderCommentedOptionsByModule(renders: Record<string, string>, options
   const result = [];
   const marginSize = Math.max(...options.map((opt) => renders[opt.name].length));
   for (const [moduleName, optionGroup] of Object.entries(optionsByModule).sort()) {
-    result.push(`${TAB}/* ${moduleName} */`);
+    result.push(`${syntax.indent}${syntax.renderDocs(moduleName)}`);
     for (const option of optionGroup) {
       const paramRender = renders[option.name];
       const docstring = option.docs || 'No documentation found.';
-      result.push(`${TAB}${paramRender}${makePadding(marginSize - paramRender.length + 2)}/* ${docstring} */`);
+      result.push(`${syntax.indent}${paramRender}${makePadding(marginSize - paramRender.length + 2)}${syntax.renderDocs(docstring)}`);
     }
     result.push('');
   }
   return result;
 }
 
-function renderCommentedOptionsInOrder(renders: Record<string, string>, options: inventory.ProjectOption[]) {
+function renderCommentedOptionsInOrder(syntax: OptionsSyntax, renders: Record<string, string>, options: inventory.ProjectOption[]) {
   const result = [];
   const marginSize = Math.max(...options.map((opt) => renders[opt.name].length));
   for (const option of options) {
     const paramRender = renders[option.name];
     const docstring = option.docs || 'No documentation found.';
-    result.push(`${TAB}${paramRender}${makePadding(marginSize - paramRender.length + 2)}/* ${docstring} */`);
+    result.push(`${syntax.indent}${paramRender}${makePadding(marginSize - paramRender.length + 2)}${syntax.renderDocs(docstring)}`);
   }
   return result;
 }
 
 /**
- * Renders a CLI argument as a basic JavaScript value. It must either be a
- * string, number, boolean, or enum.
+ * Renders a CLI argument as a value. Enum options are rendered as a
+ * reference to the enum member and all other arguments are rendered as
+ * literals.
  *
- * Returns a string and the name of any needed imports if needed as an
- * object in the form { js, import }.
+ * Returns a string and the FQN of the enum if needed as an object in the
+ * form { value, importName }.
  */
-function renderArgAsJavaScript(arg: any, option: inventory.ProjectOption) {
-  // devDeps added as an exception to handle bootstrapping projects from external modules
-  if (['string', 'number', 'boolean'].includes(option.type) || option.name === 'devDeps') {
-    return { js: JSON.stringify(arg) };
-  } else if (option.kind === 'enum') {
+function renderArg(syntax: OptionsSyntax, arg: any, name: string, option?: inventory.ProjectOption) {
+  if (option?.kind === 'enum') {
     if (!option.fqn) {
-      throw new Error(`fqn field is missing from enum option ${option.name}`);
+      throw new Error(`fqn field is missing from enum option ${name}`);
     }
-    const parts = option.fqn.split('.'); // -> ['projen', 'web', 'MyEnum']
-    const enumChoice = String(arg).toUpperCase().replace('-', '_'); // custom-value -> CUSTOM_VALUE
-    const js = `${parts.slice(1).join('.')}.${enumChoice}`; // -> web.MyEnum.CUSTOM_VALUE
-    const importName = parts[1]; // -> web
-    return { js, importName: importName };
+    const enumChoice = String(arg).toUpperCase().replace(/-/g, '_'); // custom-value -> CUSTOM_VALUE
+    return { value: syntax.renderEnum(option.fqn, enumChoice), importName: option.fqn };
+  } else {
+    return { value: syntax.renderValue(arg) };
+  }
+}
+
+/**
+ * Translates the "@default" of an option to another language. Defaults that
+ * are JSON literals are translated, macros (e.g. `$BASEDIR`, which are only
+ * resolved by `projen new`) are omitted and all others (e.g. enum members) are
+ * rendered as-is.
+ */
+function translateDefault(defaultValue: string | undefined, renderValue: (value: any) => string) {
+  if (defaultValue === undefined || defaultValue.startsWith('$')) {
+    return renderValue(undefined);
+  }
+
+  try {
+    return renderValue(JSON.parse(defaultValue));
+  } catch {
+    return defaultValue;
+  }
+}
+
+/**
+ * Renders a value as a JavaScript literal (with single-quoted strings).
+ */
+export function toJavaScriptValue(value: any): string {
+  if (value === undefined) {
+    return 'undefined';
+  } else if (Array.isArray(value)) {
+    return `[${value.map(toJavaScriptValue).join(', ')}]`;
+  } else if (typeof value === 'object' && value !== null) {
+    const entries = Object.entries(value).map(([k, v]) => `${/^[A-Za-z_$][\w$]*$/.test(k) ? k : useSingleQuotes(JSON.stringify(k))}: ${toJavaScriptValue(v)}`);
+    return entries.length === 0 ? '{}' : `{ ${entries.join(', ')} }`;
   } else {
-    throw new Error(`Unexpected option ${option.name} of kind: ${option.kind}`);
+    return useSingleQuotes(JSON.stringify(value));
   }
 }
 
+function toPythonValue(value: any): string {
+  if (value === undefined || value === null) {
+    return 'None';
+  } else if (typeof value === 'boolean') {
+    return value ? 'True' : 'False';
+  } else if (Array.isArray(value)) {
+    return `[${value.map(toPythonValue).join(', ')}]`;
+  } else if (typeof value === 'object') {
+    return `{${Object.entries(value).map(([k, v]) => `${JSON.stringify(k)}: ${toPythonValue(v)}`).join(', ')}}`;
+  } else {
+    return JSON.stringify(value);
+  }
+}
+
+/**
+ * Renders a value as a Java expression. Lists and maps are rendered as
+ * immutable collections (e.g. `java.util.List.of("a", "b")`).
+ */
+function toJavaValue(value: any): string {
+  if (value === undefined || value === null) {
+    return 'null';
+  } else if (Array.isArray(value)) {
+    return `java.util.List.of(${value.map(toJavaValue).join(', ')})`;
+  } else if (typeof value === 'object') {
+    return `java.util.Map.of(${Object.entries(value).map(([k, v]) => `${JSON.stringify(k)}, ${toJavaValue(v)}`).join(', ')})`;
+  } else {
+    return JSON.stringify(value);
+  }
+}
+
+function useSingleQuotes(str: string) {
+  return str.replace(/"(.+)"/, '\'$1\'');
+}
+
 function makePadding(paddingLength: number): string {
   return ' '.repeat(paddingLength);
 }
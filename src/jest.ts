@@ -1,5 +1,7 @@
 import * as path from 'path';
 import * as semver from 'semver';
+import { Component } from './component';
+import { DependencyType } from './deps';
 import { NodeProject } from './node-project';
 import { TaskCategory } from './tasks';
 import { TypescriptConfig, TypescriptConfigOptions } from './typescript-config';
@@ -539,7 +541,7 @@ type JestReporter = [string, { [key: string]: any }] | string;
  * - `test:update` will run `jest -u`
  *
  */
-export class Jest {
+export class Jest extends Component {
   /**
    * Escape hatch.
    */
@@ -549,20 +551,21 @@ export class Jest {
   private readonly ignorePatterns: string[];
   private readonly watchIgnorePatterns: string[];
   private readonly coverageReporters: string[];
-  private readonly project: NodeProject;
+  private readonly _project: NodeProject;
   private readonly reporters: JestReporter[];
   private readonly jestConfig?: JestConfigOptions;
   private readonly typescriptConfig?: TypescriptConfigOptions;
   private _snapshotResolver: string | undefined;
 
   constructor(project: NodeProject, options: JestOptions = {}) {
-    this.project = project;
+    super(project);
+    this._project = project;
 
     // Jest snapshot files are generated files!
     project.root.github?.annotateGenerated('*.snap');
 
     const jestDep = options.jestVersion ? `jest@${options.jestVersion}` : 'jest';
-    project.addDevDeps(jestDep);
+    this.ownDependency(jestDep, DependencyType.BUILD);
 
     this.jestConfig = options.jestConfig;
     this.typescriptConfig = options.typescriptConfig;
@@ -602,18 +605,20 @@ export class Jest {
         { outputDirectory: reportsDir },
       ]);
 
-      project.addDevDeps('jest-junit@^12');
+      this.ownDependency('jest-junit@^12', DependencyType.BUILD);
 
-      project.gitignore.exclude(
-        '# jest-junit artifacts',
-        `/${reportsDir}/`,
-        'junit.xml',
-      );
-      project.npmignore?.exclude(
+      this.ownGitIgnore(
         '# jest-junit artifacts',
         `/${reportsDir}/`,
         'junit.xml',
       );
+      if (project.npmignore) {
+        this.ownIgnorePatterns(project.npmignore,
+          '# jest-junit artifacts',
+          `/${reportsDir}/`,
+          'junit.xml',
+        );
+      }
     }
 
     if (this.jestConfig?.reporters) {
@@ -630,11 +635,14 @@ export class Jest {
 
     this.configureTestCommand();
 
-    project.addFields({ jest: this.config });
+    // omitted once the component is removed from the project
+    project.addFields({ jest: () => project.components.includes(this) ? this.config : undefined });
 
     const coverageDirectoryPath = path.posix.join('/', coverageDirectory);
-    project.npmignore?.exclude(coverageDirectoryPath);
-    project.gitignore.exclude(coverageDirectoryPath);
+    if (project.npmignore) {
+      this.ownIgnorePatterns(project.npmignore, coverageDirectoryPath);
+    }
+    this.ownGitIgnore(coverageDirectoryPath);
 
     if (options.coverageText ?? true) {
       this.coverageReporters.push('text');
@@ -675,7 +683,7 @@ export class Jest {
    * @param options TypescriptConfigOptions
    */
   public generateTypescriptConfig(options: TypescriptConfigOptions) {
-    const tsconfig = new TypescriptConfig(this.project, {
+    const tsconfig = new TypescriptConfig(this._project, {
       fileName: options.fileName ?? 'tsconfig.jest.json',
       include: [
         ...options.include ? options.include : [],
@@ -706,11 +714,11 @@ export class Jest {
       },
     };
 
+    this.own(tsconfig.file);
+
     // add relevant deps
-    this.project.addDevDeps(
-      '@types/jest',
-      'ts-jest',
-    );
+    this.ownDependency('@types/jest', DependencyType.BUILD);
+    this.ownDependency('ts-jest', DependencyType.BUILD);
 
     return tsconfig;
   }
@@ -720,28 +728,28 @@ export class Jest {
 
     // if the project has anti-tamper configured, it should be safe to always run tests
     // with --updateSnapshot because if we forget to commit a snapshot change the CI build will fail.
-    if (this.project.antitamper) {
+    if (this._project.antitamper) {
       jestOpts.push('--updateSnapshot');
     }
 
     // as recommended in the jest docs, node > 14 may use native v8 coverage collection
     // https://jestjs.io/docs/en/cli#--coverageproviderprovider
-    if (this.project.package.minNodeVersion && semver.gte(this.project.package.minNodeVersion, '14.0.0')) {
+    if (this._project.package.minNodeVersion && semver.gte(this._project.package.minNodeVersion, '14.0.0')) {
       jestOpts.push('--coverageProvider=v8');
     }
 
-    this.project.testTask.exec(`jest ${jestOpts.join(' ')}`);
+    this.ownExec(this._project.testTask, `jest ${jestOpts.join(' ')}`, { receiveArgs: true });
 
-    this.project.addTask('test:watch', {
+    this.ownTask(this._project.addTask('test:watch', {
       description: 'Run jest in watch mode',
       category: TaskCategory.TEST,
       exec: 'jest --watch',
-    });
+    }));
 
-    this.project.addTask('test:update', {
+    this.ownTask(this._project.addTask('test:update', {
       description: 'Update jest snapshots',
       category: TaskCategory.TEST,
       exec: 'jest --updateSnapshot',
-    });
+    }));
   }
 }
@@ -27,7 +27,7 @@ export class JsonFile extends ObjectFile {
 
     const sanitized = JSON.parse(json);
 
-    if (this.marker) {
+    if (this.marker && !this.project.ejected) {
       sanitized['//'] = JsonFile.PROJEN_MARKER;
     }
 
@@ -29,6 +29,7 @@ export interface LoggerOptions {
 export class Logger extends Component {
   private readonly level: LogLevel;
   private readonly usePrefix: boolean;
+  private readonly warnings = new Array<string>();
 
   constructor(project: Project, options: LoggerOptions = {}) {
     super(project);
@@ -92,6 +93,7 @@ export class Logger extends Component {
    * @param text strings or objects to print
    */
   public warn(...text: any[]) {
+    this.warnings.push(text.join(' '));
     this.log(LogLevel.WARN, ...text);
   }
 
@@ -103,6 +105,14 @@ export class Logger extends Component {
     this.log(LogLevel.ERROR, ...text);
   }
 
+  /**
+   * All messages logged with `warn()` (which are summarized after synthesis).
+   * @internal
+   */
+  public get _warnings(): string[] {
+    return [...this.warnings];
+  }
+
   private colorForLogLevel(level: LogLevel): chalk.ChalkFunction {
     switch (level) {
       case LogLevel.ERROR: return chalk.red;
@@ -121,6 +121,13 @@ export class Makefile extends FileBase {
     return this;
   }
 
+  public validate(): string[] {
+    // rules may also be added directly to `rules`
+    return this.rules
+      .filter(rule => !rule.targets || !rule.targets.length)
+      .map(() => '"targets" cannot be undefined or empty for items in "rules"');
+  }
+
   private validateRule(rule: Rule) {
     if (!rule.targets || !rule.targets.length) {
       throw new Error('"targets" cannot be undefined or empty for items in "rules"');
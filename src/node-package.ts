@@ -969,6 +969,11 @@ export class NodePackage extends Component {
 
 
   private npmScriptForTask(task: Task) {
+    // ejected projects can't delegate to the projen CLI
+    if (this.project.ejected) {
+      return task.toShellCommand();
+    }
+
     switch (this.npmTaskExecution) {
       case NpmTaskExecution.PROJEN: return `${this.projenCommand} ${task.name}`;
       case NpmTaskExecution.SHELL: return task.toShellCommand();
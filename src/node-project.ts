@@ -188,6 +188,15 @@ export interface NodeProjectOptions extends ProjectOptions, NodePackageOptions,
    */
   readonly projenDuringBuild?: boolean;
 
+  /**
+   * Adds a step to the build workflow which runs `projen check` right after
+   * dependencies are installed. This fails the build early (before compiling
+   * and testing) if any of the generated files are out of date.
+   *
+   * @default false
+   */
+  readonly projenCheck?: boolean;
+
   /**
    * Defines an .npmignore file. Normally this is only needed for libraries that
    * are packaged as tarballs.
@@ -348,6 +357,7 @@ export class NodeProject extends Project {
   public get maxNodeVersion(): string | undefined { return this.package.maxNodeVersion; }
 
   private readonly nodeVersion?: string;
+  private readonly projenCheck: boolean;
 
   /**
    * Indicates if workflows have anti-tamper checks.
@@ -415,6 +425,7 @@ export class NodeProject extends Project {
     })();
 
     this.nodeVersion = options.workflowNodeVersion ?? this.package.minNodeVersion;
+    this.projenCheck = (options.projenCheck ?? false) && !this.ejected;
 
 
     // add PATH for all tasks which includes the project's npm .bin list
@@ -446,7 +457,7 @@ export class NodeProject extends Project {
     if (options.projenDuringBuild ?? true) {
       // skip for sub-projects (i.e. "parent" is defined) since synthing the
       // root project will include the subprojects.
-      if (!this.parent) {
+      if (!this.parent && !this.ejected) {
         this.buildTask.exec(this.projenCommand);
       }
     }
@@ -479,15 +490,19 @@ export class NodeProject extends Project {
     }
 
 
-    this.setScript(PROJEN_SCRIPT, this.package.projenCommand);
-    this.setScript('start', `${this.package.projenCommand} start`);
+    if (!this.ejected) {
+      this.setScript(PROJEN_SCRIPT, this.package.projenCommand);
+      this.setScript('start', `${this.package.projenCommand} start`);
+    }
 
-    this.npmignore?.exclude(`/${PROJEN_RC}`);
-    this.npmignore?.exclude(`/${PROJEN_DIR}`);
-    this.gitignore.include(`/${PROJEN_RC}`);
+    if (!this.ejected) {
+      this.npmignore?.exclude(`/${PROJEN_RC}`);
+      this.npmignore?.exclude(`/${PROJEN_DIR}`);
+      this.gitignore.include(`/${PROJEN_RC}`);
+    }
 
     const projen = options.projenDevDependency ?? true;
-    if (projen) {
+    if (projen && !this.ejected) {
       const projenVersion = options.projenVersion ?? `^${PROJEN_VERSION}`;
       this.addDevDeps(`projen@${projenVersion}`);
     }
@@ -641,7 +656,7 @@ export class NodeProject extends Project {
     const dependenciesUpgrade = options.depsUpgrade ?? defaultDependenciesUpgrade;
     dependenciesUpgrade.bind(this);
 
-    if (dependenciesUpgrade.ignoresProjen && this.package.packageName !== 'projen') {
+    if (dependenciesUpgrade.ignoresProjen && this.package.packageName !== 'projen' && !this.ejected) {
 
       const projenAutoMerge = options.projenUpgradeAutoMerge ?? true;
 
@@ -924,6 +939,11 @@ export class NodeProject extends Project {
       run: 'git diff --ignore-space-at-eol --exit-code',
     }];
 
+    const projenCheckSteps = !this.projenCheck ? [] : [{
+      name: 'Check generated files',
+      run: `${this.package.projenCommand} check`,
+    }];
+
     const job: Mutable<workflows.Job> = {
       runsOn: 'ubuntu-latest',
       env: {
@@ -948,6 +968,9 @@ export class NodeProject extends Project {
         // perform an anti-tamper check immediately after we run projen.
         ...antitamperSteps,
 
+        // fail fast if generated files are out of date
+        ...projenCheckSteps,
+
         // sets git identity so we can push later
         {
           name: 'Set git identity',
@@ -1000,12 +1023,16 @@ export class NodeProject extends Project {
   /**
  * Returns the shell command to execute in order to run a task. If
  * npmTaskExecution is set to PROJEN, the command will be `npx projen TASK`.
- * If it is set to SHELL, the command will be `yarn run TASK` (or `npm run
- * TASK`).
+ * If it is set to SHELL (or the project is ejected), the command will be
+ * `yarn run TASK` (or `npm run TASK`).
  *
  * @param task The task for which the command is required
  */
   public runTaskCommand(task: Task) {
+    if (this.ejected) {
+      return `${this.runScriptCommand} ${task.name}`;
+    }
+
     switch (this.package.npmTaskExecution) {
       case NpmTaskExecution.PROJEN: return `${this.package.projenCommand} ${task.name}`;
       case NpmTaskExecution.SHELL: return `${this.runScriptCommand} ${task.name}`;
@@ -54,6 +54,11 @@ export abstract class ObjectFile extends FileBase {
    */
   public readonly omitEmpty: boolean;
 
+  /**
+   * Files merged into this file.
+   */
+  private readonly merged = new Array<ObjectFile>();
+
   constructor(project: Project, filePath: string, options: ObjectFileOptions) {
     super(project, filePath, options);
 
@@ -118,6 +123,29 @@ export abstract class ObjectFile extends FileBase {
     curr[lastKey] = value;
   }
 
+  /**
+   * Merges the content of another object file into this file. Values defined
+   * by this file (including overrides) take precedence.
+   *
+   * Together with `project.tryRemoveFile()`, this can be used to take over a
+   * file created by another component without losing its content:
+   *
+   * ```typescript
+   * const existing = project.tryRemoveFile('config.json') as ObjectFile;
+   * const file = new JsonFile(project, 'config.json', { obj: { foo: 'bar' } });
+   * file.merge(existing);
+   * ```
+   *
+   * @param other The file to merge into this one
+   */
+  public merge(other: ObjectFile) {
+    if (other === this) {
+      throw new Error('cannot merge a file into itself');
+    }
+
+    this.merged.push(other);
+  }
+
   /**
    * Syntactic sugar for `addOverride(path, undefined)`.
    * @param path The path of the value to delete
@@ -127,9 +155,14 @@ export abstract class ObjectFile extends FileBase {
   }
 
   protected synthesizeContent(resolver: IResolver): string | undefined {
-    const obj = this.obj;
+    const resolved = this.resolveObject(resolver);
+    return resolved ? JSON.stringify(resolved, undefined, 2) : undefined;
+  }
+
+  private resolveObject(resolver: IResolver): any {
+    const merged = this.merged.map(f => f.resolveObject(resolver));
 
-    const resolved = resolver.resolve(obj, {
+    const resolved = resolver.resolve(this.obj, {
       omitEmpty: this.omitEmpty,
     }) ?? undefined;
 
@@ -137,7 +170,11 @@ export abstract class ObjectFile extends FileBase {
       deepMerge([resolved, this.rawOverrides], true);
     }
 
-    return resolved ? JSON.stringify(resolved, undefined, 2) : undefined;
+    if (merged.every(m => m === undefined)) {
+      return resolved;
+    }
+
+    return deepMerge([{}, ...merged, resolved], true);
   }
 }
 
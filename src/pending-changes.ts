@@ -0,0 +1,200 @@
+import * as path from 'path';
+import * as fs from 'fs-extra';
+import { PROJEN_MARKER } from './common';
+import { getFilePermissions, WriteFileOptions } from './util';
+import { unifiedDiff } from './util/diff';
+
+/**
+ * The kind of change synthesis would make to a file.
+ */
+export enum FileChangeKind {
+  CREATED = 'created',
+  MODIFIED = 'modified',
+  DELETED = 'deleted',
+}
+
+/**
+ * A pending change to a single file.
+ */
+export interface FileChange {
+  /**
+   * The file path, relative to the root project.
+   */
+  readonly path: string;
+
+  /**
+   * The absolute path of the file.
+   */
+  readonly absolutePath: string;
+
+  /**
+   * What would happen to this file.
+   */
+  readonly kind: FileChangeKind;
+
+  /**
+   * A unified diff between the contents on disk and the synthesized contents
+   * (empty if only the mode of the file changes).
+   */
+  readonly diff: string;
+
+  /**
+   * The permissions of the file on disk and after synthesis (e.g. "644" and
+   * "755") if they differ.
+   */
+  readonly mode?: { readonly from: string; readonly to: string };
+
+  /**
+   * Indicates if the file is marked as generated by projen (either on disk or
+   * in its synthesized contents).
+   */
+  readonly generated: boolean;
+}
+
+/**
+ * Collects the files synthesis would write and delete instead of touching the
+ * disk, so they can be compared against the current state of the project.
+ */
+export class PendingChanges {
+  private readonly files = new Map<string, { content: string; options: WriteFileOptions }>();
+  private readonly deletions = new Set<string>();
+
+  /**
+   * @param rootdir The directory file paths are reported relative to.
+   */
+  constructor(private readonly rootdir: string) { }
+
+  /**
+   * Records the synthesized contents of a file.
+   * @param absolutePath The absolute path of the file
+   * @param content The synthesized contents
+   * @param options The permissions the file would be written with
+   */
+  public addFile(absolutePath: string, content: string, options: WriteFileOptions = {}) {
+    this.files.set(absolutePath, { content, options });
+  }
+
+  /**
+   * Records generated files which would be deleted before synthesis.
+   * @param absolutePaths The absolute paths of the files
+   */
+  public addDeletions(absolutePaths: string[]) {
+    for (const f of absolutePaths) {
+      this.deletions.add(f);
+    }
+  }
+
+  /**
+   * Compares all recorded files against the disk and returns the files which
+   * would change, sorted by path. Generated files which are deleted and then
+   * synthesized again are only reported if their contents change.
+   */
+  public get changes(): FileChange[] {
+    const result = new Array<FileChange>();
+
+    for (const [absolutePath, { content, options }] of this.files.entries()) {
+      const relative = this.relative(absolutePath);
+      const exists = fs.existsSync(absolutePath);
+      const current = exists ? fs.readFileSync(absolutePath, 'utf-8') : '';
+      const currentMode = exists ? (fs.statSync(absolutePath).mode % 0o1000).toString(8) : undefined;
+      const mode = getFilePermissions(options);
+      if (exists && current === content && currentMode === mode) {
+        continue;
+      }
+
+      result.push({
+        path: relative,
+        absolutePath,
+        kind: exists ? FileChangeKind.MODIFIED : FileChangeKind.CREATED,
+        diff: unifiedDiff(current, content, {
+          fromFile: exists ? `a/${relative}` : '/dev/null',
+          toFile: `b/${relative}`,
+        }),
+        mode: currentMode && currentMode !== mode ? { from: currentMode, to: mode } : undefined,
+        generated: content.includes(PROJEN_MARKER) || current.includes(PROJEN_MARKER),
+      });
+    }
+
+    for (const absolutePath of this.deletions) {
+      if (this.files.has(absolutePath)) {
+        continue;
+      }
+
+      const relative = this.relative(absolutePath);
+      result.push({
+        path: relative,
+        absolutePath,
+        kind: FileChangeKind.DELETED,
+        diff: unifiedDiff(fs.readFileSync(absolutePath, 'utf-8'), '', {
+          fromFile: `a/${relative}`,
+          toFile: '/dev/null',
+        }),
+        generated: true, // only generated files are deleted
+      });
+    }
+
+    return result.sort((c1, c2) => c1.path.localeCompare(c2.path));
+  }
+
+  /**
+   * Renders all pending changes as a patch followed by a summary.
+   */
+  public render(): string {
+    const changes = this.changes;
+    if (changes.length === 0) {
+      return 'No changes.\n';
+    }
+
+    return [...changes.map(renderChange), '\n', renderSummary(changes)].join('');
+  }
+
+  /**
+   * Fails if any file marked as generated by projen would change. Since git
+   * only tracks the executable bit, files which are only missing their
+   * read-only permissions (e.g. after a fresh checkout) are not reported.
+   */
+  public check() {
+    const drifted = this.changes.filter(c => c.generated && (c.kind !== FileChangeKind.MODIFIED || c.diff || isExecutableChange(c)));
+    if (drifted.length === 0) {
+      return;
+    }
+
+    throw new Error([
+      `${drifted.length} generated file(s) are out of date. Run "npx projen" and commit the changes:`,
+      renderSummary(drifted),
+    ].join('\n'));
+  }
+
+  private relative(absolutePath: string) {
+    return path.relative(this.rootdir, absolutePath).split(path.sep).join(path.posix.sep);
+  }
+}
+
+/**
+ * Renders a change in the format of `git diff`, which also includes changes
+ * to the mode of the file.
+ */
+function renderChange(change: FileChange) {
+  if (!change.mode) {
+    return change.diff;
+  }
+
+  return [
+    `diff --git a/${change.path} b/${change.path}\n`,
+    `old mode 100${change.mode.from}\n`,
+    `new mode 100${change.mode.to}\n`,
+    change.diff,
+  ].join('');
+}
+
+/**
+ * Like git, only the executable bit of the owner is considered.
+ */
+function isExecutableChange(change: FileChange) {
+  const executable = (mode: string) => parseInt(mode[0], 8) % 2 === 1;
+  return change.mode !== undefined && executable(change.mode.from) !== executable(change.mode.to);
+}
+
+function renderSummary(changes: FileChange[]) {
+  return changes.map(c => `${c.kind.padEnd(8)} ${c.path}\n`).join('');
+}
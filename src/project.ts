@@ -1,25 +1,37 @@
 import * as path from 'path';
-import { cleanup } from './cleanup';
+import * as fs from 'fs-extra';
+import { cleanup, findGeneratedFiles } from './cleanup';
 import { Clobber } from './clobber';
-import { PROJEN_VERSION } from './common';
+import { PROJEN_DIR, PROJEN_RC, PROJEN_VERSION } from './common';
 import { Component } from './component';
 import { Dependencies } from './deps';
 import { FileBase } from './file';
 import { GitHub, GitHubOptions } from './github';
 import { Gitpod } from './gitpod';
+import { ProjectHooks, SynthesisEventType } from './hooks';
 import { IgnoreFile } from './ignore-file';
 import * as inventory from './inventory';
-import { resolveNewProject } from './javascript/render-options';
+import { PROJEN_NEW, resolveNewProject } from './javascript/render-options';
 import { JsonFile } from './json';
-import { Logger, LoggerOptions } from './logger';
+import { Logger, LoggerOptions, LogLevel } from './logger';
 import { ObjectFile } from './object-file';
 import { NewProjectOptionHints } from './option-hints';
+import { PendingChanges } from './pending-changes';
 import { SampleReadme, SampleReadmeProps } from './readme';
 import { Task, TaskOptions } from './tasks';
 import { Tasks } from './tasks/tasks';
 import { isTruthy } from './util';
 import { VsCode, DevContainer } from './vscode';
 
+/**
+ * The runtime type information jsii attaches to the classes of a module.
+ */
+const JSII_RTTI = Symbol.for('jsii.rtti');
+
+interface JsiiClass {
+  readonly [JSII_RTTI]?: { readonly fqn: string };
+}
+
 export interface ProjectOptions extends GitHubOptions {
   /**
    * This is the name of your project.
@@ -87,6 +99,40 @@ export interface ProjectOptions extends GitHubOptions {
    * @default {}
    */
   readonly logging?: LoggerOptions;
+
+  /**
+   * Fail if options include keys which are not options of the project type
+   * (for example, because an option was renamed). Otherwise, a warning is
+   * logged.
+   *
+   * @default false
+   */
+  readonly strictOptions?: boolean;
+}
+
+/**
+ * Options for `Project.synth()`.
+ */
+export interface ProjectSynthOptions {
+  /**
+   * Run the full synthesis pipeline without writing anything to disk. Instead,
+   * print a unified diff of every file that would change and list the
+   * generated files that would be deleted.
+   *
+   * Post-synthesis steps (e.g. installing dependencies) are skipped.
+   *
+   * @default - true if the `PROJEN_DRY_RUN` environment variable is set
+   */
+  readonly dryRun?: boolean;
+
+  /**
+   * Synthesize in memory (like `dryRun`) and fail if any file marked as
+   * generated by projen differs from its contents on disk. This is used to
+   * verify that committed generated files are up-to-date.
+   *
+   * @default - true if the `PROJEN_CHECK` environment variable is set
+   */
+  readonly check?: boolean;
 }
 
 /**
@@ -176,11 +222,33 @@ export class Project {
    */
   public readonly newProject?: NewProject;
 
+  /**
+   * Whether the project is being ejected (see `projen eject`), which is the
+   * case if the `PROJEN_EJECTING` environment variable is set. Ejected
+   * projects are synthesized without projen markers, tasks are rendered as
+   * plain shell commands and all projen files (such as `.projenrc.js` and the
+   * `.projen` directory) are removed.
+   */
+  public readonly ejected: boolean;
+
+  /**
+   * Listeners for the synthesis events of this project.
+   */
+  public readonly hooks: ProjectHooks = new ProjectHooks(this);
+
   private readonly _components = new Array<Component>();
   private readonly subprojects = new Array<Project>();
   private readonly tips = new Array<string>();
   private readonly excludeFromCleanup: string[];
 
+  private synthesizing = false;
+
+  /**
+   * Collects file changes while synthesizing in dry-run mode.
+   * @internal
+   */
+  public _pendingChanges?: PendingChanges;
+
   constructor(options: ProjectOptions) {
     this.newProject = resolveNewProject(options);
 
@@ -188,6 +256,7 @@ export class Project {
     this.parent = options.parent;
     this.excludeFromCleanup = [];
     this.projectType = options.projectType ?? ProjectType.UNKNOWN;
+    this.ejected = isTruthy(process.env.PROJEN_EJECTING);
 
     if (this.parent && options.outdir && path.isAbsolute(options.outdir)) {
       throw new Error('"outdir" must be a relative path');
@@ -222,6 +291,7 @@ export class Project {
     this.deps = new Dependencies(this);
 
     this.logger = new Logger(this, options.logging);
+    this.checkOptions(options);
 
     // we only allow these global services to be used in root projects
     this.github = !this.parent ? new GitHub(this, options) : undefined;
@@ -244,6 +314,87 @@ export class Project {
     return [...this._components];
   }
 
+  /**
+   * Returns all components of this project which are instances of a type
+   * (including subclasses). In TypeScript, the components are typed (e.g.
+   * `project.findComponents(JsonFile)` returns `JsonFile[]`).
+   *
+   * @param type The component class (e.g. `Eslint`)
+   */
+  public findComponents(type: any): Component[] {
+    return this._components.filter(c => c instanceof type);
+  }
+
+  /**
+   * Finds the first component of this project which is an instance of a type
+   * (including subclasses). In TypeScript, the component is typed (e.g.
+   * `project.tryFindComponent(Eslint)` returns `Eslint | undefined`).
+   *
+   * @param type The component class (e.g. `Eslint`)
+   * @returns the component or `undefined` if there is no such component
+   */
+  public tryFindComponent(type: any): Component | undefined {
+    return this._components.find(c => c instanceof type);
+  }
+
+  /**
+   * Removes a component from this project, together with the components (such
+   * as files), tasks, task steps, ignore patterns and dependencies it
+   * contributed. Steps of other tasks which spawn the removed tasks are removed
+   * as well.
+   *
+   * Ignore patterns which are also contributed by another component of this
+   * project are not removed.
+   *
+   * @param component The component to remove
+   */
+  public removeComponent(component: Component) {
+    const idx = this._components.indexOf(component);
+    if (idx === -1) {
+      throw new Error(`${component.constructor.name} is not a component of project "${this.name}"`);
+    }
+
+    this._components.splice(idx, 1);
+
+    const owned = component._owned;
+
+    for (const comp of owned.components) {
+      if (comp.project._components.includes(comp)) {
+        comp.project.removeComponent(comp);
+      }
+    }
+
+    for (const task of owned.tasks) {
+      if (this.tasks.tryFind(task.name) !== task) {
+        continue;
+      }
+
+      for (const other of this.tasks.all) {
+        other._removeSpawns(task.name);
+      }
+
+      this.removeTask(task.name);
+    }
+
+    for (const step of owned.steps) {
+      step.task._removeExec(step.command);
+    }
+
+    for (const dep of owned.dependencies) {
+      this.deps._removeDependency(dep);
+    }
+
+    // patterns which are also contributed by another component are retained
+    const isRetained = (entry: { file: IgnoreFile; pattern: string }) => this._components.some(c =>
+      c._owned.ignorePatterns.some(e => e.file === entry.file && e.pattern === entry.pattern));
+
+    for (const entry of owned.ignorePatterns) {
+      if (!isRetained(entry)) {
+        entry.file.removePatterns(entry.pattern);
+      }
+    }
+  }
+
   /**
    * All files in this project.
    */
@@ -300,6 +451,26 @@ export class Project {
     return undefined;
   }
 
+  /**
+   * Removes a file from the project tree (this project or any of its
+   * subprojects), so it is no longer synthesized. This can be used to take
+   * over a file created by another component by creating a new file at the
+   * same path.
+   *
+   * @param filePath The absolute path or a path relative to this project's
+   * outdir
+   * @returns the removed file or `undefined` if there is no such file
+   */
+  public tryRemoveFile(filePath: string): FileBase | undefined {
+    const file = this.tryFindFile(filePath);
+    if (!file) {
+      return undefined;
+    }
+
+    file.project.removeComponent(file);
+    return file;
+  }
+
   /**
    * Finds a json file by name.
    * @param filePath The file path.
@@ -357,11 +528,16 @@ export class Project {
   /**
    * Returns the shell command to execute in order to run a task.
    *
-   * By default, this is `npx projen@<version> <task>`
+   * By default, this is `npx projen@<version> <task>`. If the project is
+   * ejected, the task is rendered as a plain shell command.
    *
    * @param task The task for which the command is required
    */
   public runTaskCommand(task: Task) {
+    if (this.ejected) {
+      return task.toShellCommand();
+    }
+
     return `npx projen@${PROJEN_VERSION} ${task.name}`;
   }
 
@@ -383,45 +559,120 @@ export class Project {
     this.gitignore.addPatterns(pattern);
   }
 
+  /**
+   * Indicates if the project is currently being synthesized in dry-run mode.
+   * Components which write to the disk directly (and not through `FileBase`)
+   * should not do so when this is `true`.
+   */
+  public get dryRun(): boolean {
+    return this._pendingChanges !== undefined;
+  }
+
   /**
    * Synthesize all project files into `outdir`.
    *
    * 1. Call "this.preSynthesize()"
-   * 2. Delete all generated files
-   * 3. Synthesize all sub-projects
-   * 4. Synthesize all components of this project
-   * 5. Call "postSynthesize()" for all components of this project
-   * 6. Call "this.postSynthesize()"
+   * 2. Validate the project, its components and all subprojects
+   * 3. Delete all generated files
+   * 4. Synthesize all sub-projects
+   * 5. Synthesize all components of this project
+   * 6. Call "postSynthesize()" for all components of this project
+   * 7. Call "this.postSynthesize()"
+   *
+   * Components are called in the order they were added to the project, unless
+   * they declare otherwise (see `Component.synthesizeAfter()`). Listeners
+   * registered through `hooks` are notified along the way.
+   *
+   * In dry-run mode, generated files are not deleted, nothing is written and
+   * post-synthesis is skipped. The pending changes are printed instead.
+   *
+   * @param options Synthesis options
    */
-  public synth(): void {
+  public synth(options: ProjectSynthOptions = {}): void {
     const outdir = this.outdir;
-    this.logger.info('Synthesizing project...');
+
+    // subprojects share the pending changes of the parent that synthesizes them
+    const check = options.check ?? isTruthy(process.env.PROJEN_CHECK);
+    const dryRun = check || (options.dryRun ?? isTruthy(process.env.PROJEN_DRY_RUN));
+    const ownsPendingChanges = dryRun && !this.parent?._pendingChanges;
+    if (ownsPendingChanges) {
+      this._pendingChanges = new PendingChanges(outdir);
+    } else if (dryRun) {
+      this._pendingChanges = this.parent?._pendingChanges;
+    }
+
+    this.synthesizing = true;
+    try {
+      this.synthProject(options);
+
+      if (ownsPendingChanges) {
+        if (check) {
+          this._pendingChanges!.check();
+          this.logger.info('All generated files are up-to-date');
+        } else {
+          process.stdout.write(this._pendingChanges!.render());
+        }
+      }
+    } finally {
+      this._pendingChanges = undefined;
+      this.synthesizing = false;
+    }
+  }
+
+  private synthProject(options: ProjectSynthOptions) {
+    const outdir = this.outdir;
+    const pendingChanges = this._pendingChanges;
+    this.logger.info(pendingChanges ? 'Synthesizing project (dry run)...' : 'Synthesizing project...');
 
     this.preSynthesize();
 
-    for (const comp of this._components) {
-      comp.preSynthesize();
+    // components may add other components during preSynthesize(), so we keep
+    // going until all components were pre-synthesized.
+    const presynthesized = new Set<Component>();
+    let pending = this.orderedComponents();
+    while (pending.length > 0) {
+      for (const comp of pending) {
+        presynthesized.add(comp);
+        comp.preSynthesize();
+      }
+      pending = this.orderedComponents().filter(c => !presynthesized.has(c));
     }
 
+    const components = this.orderedComponents();
+
     // we exclude all subproject directories to ensure that when subproject.synth()
     // gets called below after cleanup(), subproject generated files are left intact
     for (const subproject of this.subprojects) {
       this.addExcludeFromCleanup(subproject.outdir + '/**');
     }
 
+    // the project which initiated synthesis validates the entire tree, so
+    // nothing is deleted if any of the projects is invalid.
+    if (!this.parent?.synthesizing) {
+      this.validateTree();
+    }
+
+    this.hooks._emit(SynthesisEventType.BEFORE_CLEANUP);
+
     // delete all generated files before we start synthesizing new ones
-    cleanup(outdir, this.excludeFromCleanup);
+    if (pendingChanges) {
+      pendingChanges.addDeletions(findGeneratedFiles(outdir, this.excludeFromCleanup));
+    } else {
+      cleanup(outdir, this.excludeFromCleanup);
+    }
 
     for (const subproject of this.subprojects) {
-      subproject.synth();
+      subproject.synth(options);
     }
 
-    for (const comp of this._components) {
+    this.hooks._emit(SynthesisEventType.AFTER_SUBPROJECTS);
+
+    for (const comp of components) {
       comp.synthesize();
     }
 
-    if (!isTruthy(process.env.PROJEN_DISABLE_POST)) {
-      for (const comp of this._components) {
+    if (!pendingChanges && !isTruthy(process.env.PROJEN_DISABLE_POST)) {
+      for (const comp of components) {
         comp.postSynthesize();
       }
 
@@ -429,7 +680,143 @@ export class Project {
       this.postSynthesize();
     }
 
+    // the manifests under .projen and the default projenrc are only used by
+    // projen (projenrc components remove their own files)
+    if (this.ejected && !pendingChanges) {
+      fs.removeSync(path.join(outdir, PROJEN_DIR));
+      fs.removeSync(path.join(outdir, PROJEN_RC));
+    }
+
     this.logger.info('Synthesis complete');
+
+    const warnings = this.logger._warnings;
+    if (warnings.length > 0) {
+      this.logger.log(LogLevel.WARN, `${warnings.length} warning(s):\n${warnings.map(w => `  - ${w}`).join('\n')}`);
+    }
+  }
+
+  /**
+   * Validates this project, its components and all subprojects and throws an
+   * error with all the validation errors (if any).
+   */
+  private validateTree() {
+    const errors = new Array<string>();
+
+    const visit = (project: Project) => {
+      const location = path.relative(this.outdir, project.outdir) || '.';
+      const report = (source: string, messages: string[]) => {
+        errors.push(...messages.map(m => `[${location}] ${source}: ${m}`));
+      };
+
+      report(project.name, project.validate());
+
+      for (const comp of project._components) {
+        if (comp instanceof FileBase) {
+          report(`${comp.constructor.name} (${comp.path})`, [...comp._validateUnique(), ...comp.validate()]);
+        } else {
+          report(comp.constructor.name, comp.validate());
+        }
+      }
+
+      for (const subproject of project.subprojects) {
+        visit(subproject);
+      }
+    };
+
+    visit(this);
+
+    if (errors.length > 0) {
+      throw new Error(`Validation failed with ${errors.length} error(s):\n${errors.map(e => `  ${e}`).join('\n')}`);
+    }
+  }
+
+  /**
+   * Warns about deprecated options and about options which are unknown to the
+   * project type (or fails if `strictOptions` is enabled). Project types are
+   * only resolved once per process, so this is cheap for subsequent projects.
+   */
+  private checkOptions(options: ProjectOptions) {
+    // only jsii project types have option metadata (and not classes which
+    // extend them, e.g. in .projenrc.js)
+    if (!Object.prototype.hasOwnProperty.call(this.constructor, JSII_RTTI)) {
+      return;
+    }
+
+    const fqn = (this.constructor as JsiiClass)[JSII_RTTI]!.fqn;
+    let type;
+    try {
+      type = inventory.resolveProjectType(fqn);
+    } catch (e) {
+      this.logger.debug(`unable to check the options of ${fqn}: ${e.message}`);
+    }
+
+    if (!type) {
+      return;
+    }
+
+    const unknown = new Array<string>();
+    for (const [name, value] of Object.entries(options)) {
+      if (value === undefined || name === PROJEN_NEW) {
+        continue;
+      }
+
+      const option = type.options.find(o => o.name === name);
+      if (!option) {
+        unknown.push(name);
+      } else if (option.deprecated) {
+        this.logger.warn(`The "${name}" option of ${type.typename} is deprecated`);
+      }
+    }
+
+    if (unknown.length > 0) {
+      const message = `Unknown option(s) for ${type.typename}: ${unknown.join(', ')}`;
+      if (options.strictOptions) {
+        throw new Error(message);
+      }
+
+      this.logger.warn(message);
+    }
+  }
+
+  /**
+   * Returns the components of this project in the order of their insertion,
+   * except that components are placed after the components they must be
+   * synthesized after (see `Component.synthesizeAfter()`).
+   */
+  private orderedComponents() {
+    const ordered = new Array<Component>();
+    const done = new Set<Component>();
+    const visiting = new Array<Component>();
+
+    const visit = (comp: Component) => {
+      if (done.has(comp)) {
+        return;
+      }
+
+      if (visiting.includes(comp)) {
+        const cycle = [...visiting.slice(visiting.indexOf(comp)), comp].map(c => c.constructor.name);
+        throw new Error(`Cannot determine the synthesis order of components because they form a cycle: ${cycle.join(' » ')}`);
+      }
+
+      visiting.push(comp);
+      for (const dep of comp._synthesizeAfter) {
+        // components of other projects are synthesized with their project (and
+        // removed components are not synthesized at all)
+        if (dep.project === this && this._components.includes(dep)) {
+          visit(dep);
+        }
+      }
+      visiting.pop();
+
+      done.add(comp);
+      ordered.push(comp);
+    };
+
+    for (const comp of this._components) {
+      visit(comp);
+    }
+
+    return ordered;
   }
 
   /**
@@ -438,10 +825,20 @@ export class Project {
   public preSynthesize() {}
 
   /**
-   * Called after all components are synthesized. Order is *not* guaranteed.
+   * Called after all components are post-synthesized.
    */
   public postSynthesize() {}
 
+  /**
+   * Validates the project. Called with the validation of all components after
+   * pre-synthesis and before any file is deleted or written.
+   *
+   * @returns a list of error messages (empty if the project is valid)
+   */
+  public validate(): string[] {
+    return [];
+  }
+
   /**
    * Adds a component to the project.
    * @internal
@@ -475,6 +872,13 @@ export class Project {
   }
 }
 
+// Typed signatures of the component lookups of `Project` for TypeScript (jsii
+// cannot represent generic methods, so other languages use the signatures of
+// the class).
+export interface Project {
+  findComponents<T extends Component>(type: new (...args: any[]) => T): T[];
+  tryFindComponent<T extends Component>(type: new (...args: any[]) => T): T | undefined;
+}
 
 /**
  * Which type of project this is.
@@ -0,0 +1,63 @@
+import * as path from 'path';
+import { removeSync } from 'fs-extra';
+import { Component } from './component';
+import { Project } from './project';
+
+/**
+ * Options for `ProjenrcJson`.
+ */
+export interface ProjenrcJsonOptions {
+  /**
+   * The name of the projenrc file (`.json`, `.yaml` or `.yml`).
+   * @default ".projenrc.json"
+   */
+  readonly filename?: string;
+}
+
+/**
+ * Sets up a project to be defined declaratively in a JSON (or YAML) projenrc
+ * file instead of a program.
+ *
+ * The file includes the jsii FQN of the project type under `type` and the
+ * options of the project type under all other keys:
+ *
+ *    {
+ *      "type": "projen.python.PythonProject",
+ *      "name": "my-service",
+ *      "moduleName": "my_service",
+ *      ...
+ *    }
+ *
+ * This component is added automatically when a declarative projenrc file is
+ * synthesized by the projen CLI.
+ */
+export class ProjenrcJson extends Component {
+  /**
+   * The name of the projenrc file (relative to the project outdir).
+   */
+  public readonly rcfile: string;
+
+  constructor(project: Project, options: ProjenrcJsonOptions = {}) {
+    super(project);
+
+    this.rcfile = options.filename ?? '.projenrc.json';
+
+    // ejected projects are no longer synthesized by projen (the file is
+    // removed during synthesis)
+    if (project.ejected) {
+      return;
+    }
+
+    // the projen CLI synthesizes declarative projenrc files itself
+    project.addTask(Project.DEFAULT_TASK, {
+      description: 'Synthesize the project',
+      exec: `npx projen --rc ${this.rcfile}`,
+    });
+  }
+
+  public synthesize() {
+    if (this.project.ejected) {
+      removeSync(path.resolve(this.project.outdir, this.rcfile));
+    }
+  }
+}
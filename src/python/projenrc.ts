@@ -1,14 +1,12 @@
 import { dirname, join } from 'path';
-import { existsSync, mkdirpSync, writeFileSync } from 'fs-extra';
+import { existsSync, mkdirpSync, removeSync, writeFileSync } from 'fs-extra';
 import { PROJEN_VERSION } from '../common';
 import { Component } from '../component';
 import { DependencyType } from '../deps';
 import { readJsiiManifest } from '../inventory';
+import { ProjenrcLanguage, renderProjectOptions } from '../javascript/render-options';
 import { Project } from '../project';
 
-// eslint-disable-next-line @typescript-eslint/no-require-imports
-const decamelize = require('decamelize');
-
 /**
  * Options for `Projenrc`.
  */
@@ -44,6 +42,12 @@ export class Projenrc extends Component {
     const projenVersion = options.projenVersion ?? PROJEN_VERSION; // ?
     this.rcfile = options.filename ?? '.projenrc.py';
 
+    // ejected projects are no longer synthesized by projen (the file is
+    // removed during synthesis)
+    if (project.ejected) {
+      return;
+    }
+
     project.deps.addDependency(`projen@${projenVersion}`, DependencyType.DEVENV);
 
     // set up the "default" task which is the task executed when `projen` is executed for this project.
@@ -54,6 +58,12 @@ export class Projenrc extends Component {
     this.generateProjenrc();
   }
 
+  public synthesize() {
+    if (this.project.ejected) {
+      removeSync(join(this.project.outdir, this.rcfile));
+    }
+  }
+
   private generateProjenrc() {
     const bootstrap = this.project.newProject;
     if (!bootstrap) {
@@ -75,30 +85,22 @@ export class Projenrc extends Component {
       return;
     }
 
-    const lines = new Array<string>();
-
-    let indent = 0;
-    const emit = (line: string = '') => lines.push(' '.repeat(indent * 4) + line);
-    // const openBlock = (line: string = '') => { emit(line + ' {'); indent++; };
-    // const closeBlock = () => { indent--; emit('}'); };
-
-    const optionFqns: Record<string, string> = {};
-    for (const option of bootstrap.type.options) {
-      if (option.fqn) {
-        optionFqns[option.name] = option.fqn;
-      }
-    }
+    const { renderedOptions, imports } = renderProjectOptions({
+      language: ProjenrcLanguage.PYTHON,
+      args: bootstrap.args,
+      type: bootstrap.type,
+      comments: bootstrap.comments,
+    });
 
-    const { renderedOptions, imports } = renderPythonOptions(indent, optionFqns, bootstrap.args);
-
-    emit(toPythonImport(jsiiFqn));
+    const lines = new Array<string>();
+    lines.push(toPythonImport(jsiiFqn));
     for (const fqn of imports) {
-      emit(toPythonImport(fqn));
+      lines.push(toPythonImport(fqn));
     }
-    emit();
-    emit(`project = ${jsiiType.name}(${renderedOptions});`);
-    emit();
-    emit('project.synth();');
+    lines.push('');
+    lines.push(`project = ${jsiiType.name}(${renderedOptions})`);
+    lines.push('');
+    lines.push('project.synth()');
 
     mkdirpSync(dirname(pythonFile));
     writeFileSync(pythonFile, lines.join('\n'));
@@ -107,49 +109,6 @@ export class Projenrc extends Component {
   }
 }
 
-function renderPythonOptions(indent: number, optionFqns: Record<string, string>, initOptions?: Record<string, any>) {
-  const imports = new Set<string>();
-  if (!initOptions || Object.keys(initOptions).length === 0) { // no options
-    return { renderedOptions: '', imports };
-  }
-
-  const lines = [''];
-
-  for (const [name, value] of Object.entries(initOptions)) {
-    const { pythonValue, importName } = toPythonValue(value, name, optionFqns);
-    if (importName) imports.add(importName);
-    lines.push(`${toPythonProperty(name)}=${pythonValue},`);
-  }
-
-  const renderedOptions = lines.join(`\n${' '.repeat((indent + 1) * 4)}`).concat('\n');
-  return { renderedOptions, imports };
-}
-
-function toPythonProperty(prop: string) {
-  return decamelize(prop);
-}
-
-function toPythonValue(value: any, name: string, optionFqns: Record<string, string>) {
-  if (typeof value === 'boolean') {
-    return { pythonValue: value ? 'True' : 'False' };
-  } else if (typeof value === 'number') {
-    return { pythonValue: JSON.stringify(value) };
-  } else if (typeof value === 'string') {
-    if (optionFqns[name] !== undefined) {
-      const parts = optionFqns[name].split('.');
-      const base = parts[parts.length - 1];
-      const choice = String(value).toUpperCase().replace('-', '_');
-      return { pythonValue: `${base}.${choice}`, importName: optionFqns[name] };
-    } else {
-      return { pythonValue: JSON.stringify(value) };
-    }
-  } else if (value === undefined || value === null) {
-    return { pythonValue: 'None' };
-  } else {
-    return { pythonValue: JSON.stringify(value) };
-  }
-}
-
 function toPythonImport(fqn: string) {
   const parts = fqn.split('.');
   if (parts.length === 1) {
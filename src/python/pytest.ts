@@ -34,14 +34,14 @@ export class Pytest extends Component {
 
     project.addDevDependency(`pytest@${version}`);
 
-    this.testTask = project.addTask('test', {
+    this.testTask = this.ownTask(project.addTask('test', {
       description: 'Runs tests',
       category: TaskCategory.TEST,
       exec: [
         'pytest',
         ...(options.maxFailures ? [`--maxfail=${options.maxFailures}`] : []),
       ].join(' '),
-    });
+    }));
 
     new SampleDir(project, 'tests', {
       files: {
@@ -31,7 +31,7 @@ export class Venv extends Component implements IPythonEnv {
 
     this.envdir = options.envdir ?? '.env';
 
-    this.project.gitignore.exclude(`/${this.envdir}`);
+    this.ownGitIgnore(`/${this.envdir}`);
 
     this.project.tasks.addEnvironment('VIRTUAL_ENV', `$(echo $PWD/${this.envdir})`);
     this.project.tasks.addEnvironment('PATH', `$(echo $PWD/${this.envdir}/bin:$PATH)`);
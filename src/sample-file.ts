@@ -34,6 +34,14 @@ export class SampleFile extends Component {
     this.options = options;
   }
 
+  public validate(): string[] {
+    // the sample would never be written since the file would already exist
+    const file = this.project.root.tryFindFile(path.resolve(this.project.outdir, this.filePath));
+    return file
+      ? [`${file._describeOwner()} writes the same file (${this.filePath})`]
+      : [];
+  }
+
   public synthesize() {
     const contents = this.options.contents;
     this.writeOnceFileContents(this.project.outdir, this.filePath, contents ?? '');
@@ -49,7 +57,7 @@ export class SampleFile extends Component {
    */
   private writeOnceFileContents(dir: string, filename: string, contents: string) {
     const fullFilename = path.join(dir, filename);
-    if (fs.existsSync(fullFilename)) {
+    if (fs.existsSync(fullFilename) || this.project.dryRun) {
       return;
     }
     writeFile(fullFilename, contents, { readonly: false });
@@ -87,7 +95,7 @@ export class SampleDir extends Component {
 
   public synthesize() {
     const fullOutdir = path.join(this.project.outdir, this.dir);
-    if (fs.pathExistsSync(fullOutdir)) {
+    if (fs.pathExistsSync(fullOutdir) || this.project.dryRun) {
       return;
     }
 
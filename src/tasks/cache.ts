@@ -0,0 +1,121 @@
+import { createHash } from 'crypto';
+import { existsSync, mkdirSync, readFileSync, statSync, writeFileSync } from 'fs';
+import { dirname, join, resolve } from 'path';
+import * as glob from 'glob';
+import { TaskSpec } from './model';
+import { Tasks } from './tasks';
+
+/**
+ * The fingerprint of a task execution, persisted after a task succeeds.
+ */
+export interface TaskCacheEntry {
+  /**
+   * Hash of the task definition, its arguments and the contents of its inputs.
+   */
+  readonly inputs: string;
+
+  /**
+   * Hash of the contents of its outputs.
+   */
+  readonly outputs: string;
+}
+
+/**
+ * Caches the results of tasks which declare `inputs` under `.projen/cache`, so
+ * they can be skipped if nothing changed since their last successful
+ * execution.
+ */
+export class TaskCache {
+  private readonly cachedir: string;
+
+  constructor(workdir: string) {
+    this.cachedir = join(workdir, Tasks.CACHE_DIR);
+  }
+
+  /**
+   * Computes the current fingerprint of a task. Returns `undefined` if the
+   * task does not declare any inputs and therefore cannot be cached.
+   *
+   * @param task The task
+   * @param cwd The working directory of the task
+   * @param env The variables defined for the task and their values
+   * @param args The arguments passed to the task (after "--")
+   */
+  public fingerprint(task: TaskSpec, cwd: string, env: { [name: string]: string | undefined }, args: string[] = []): TaskCacheEntry | undefined {
+    if (!task.inputs?.length) {
+      return undefined;
+    }
+
+    // the definition of the task is an input as well
+    const definition = JSON.stringify({ ...task, inputs: undefined, outputs: undefined });
+
+    // so are the resolved values of the environment variables it declares
+    const taskEnv = Object.keys(env).sort().map(k => `${k}=${env[k]}`);
+
+    // and so are its arguments, which may change what its steps do
+    const taskArgs = JSON.stringify(args);
+
+    return {
+      inputs: hashFiles(cwd, task.inputs, [definition, taskArgs, ...taskEnv]),
+      outputs: hashFiles(cwd, task.outputs ?? []),
+    };
+  }
+
+  /**
+   * Determines if the fingerprint matches the last successful execution.
+   */
+  public isUpToDate(name: string, fingerprint: TaskCacheEntry): boolean {
+    const file = this.entryFile(name);
+    if (!existsSync(file)) {
+      return false;
+    }
+
+    try {
+      const entry: TaskCacheEntry = JSON.parse(readFileSync(file, 'utf-8'));
+      return entry.inputs === fingerprint.inputs && entry.outputs === fingerprint.outputs;
+    } catch {
+      return false; // corrupted cache entry
+    }
+  }
+
+  /**
+   * Records a successful execution.
+   */
+  public update(name: string, fingerprint: TaskCacheEntry) {
+    const file = this.entryFile(name);
+    mkdirSync(dirname(file), { recursive: true });
+    writeFileSync(file, JSON.stringify(fingerprint, undefined, 2));
+  }
+
+  private entryFile(name: string) {
+    // task names may include characters such as ":" which are not allowed in
+    // file names on all platforms.
+    return join(this.cachedir, `${encodeURIComponent(name)}.json`);
+  }
+}
+
+function hashFiles(cwd: string, globs: string[], extra: string[] = []) {
+  const files = new Set<string>();
+  for (const pattern of globs) {
+    for (const file of glob.sync(pattern, { cwd, dot: true, nodir: true })) {
+      files.add(file);
+    }
+  }
+
+  const hash = createHash('sha256');
+  for (const e of extra) {
+    hash.update(e).update('\0');
+  }
+
+  for (const file of [...files].sort()) {
+    const abs = resolve(cwd, file);
+    if (!statSync(abs).isFile()) {
+      continue;
+    }
+
+    hash.update(file).update('\0');
+    hash.update(readFileSync(abs)).update('\0');
+  }
+
+  return hash.digest('hex');
+}
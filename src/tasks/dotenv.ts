@@ -0,0 +1,99 @@
+import { existsSync, readFileSync } from 'fs';
+
+/**
+ * Escape sequences in double-quoted values (other escaped characters, such as
+ * `\"` and `\\`, stand for themselves).
+ */
+const ESCAPES: Record<string, string> = {
+  n: '\n',
+  r: '\r',
+  t: '\t',
+};
+
+/**
+ * Parses the contents of a `.env` file.
+ *
+ * Supports `KEY=VALUE` lines (optionally prefixed by `export`), comments,
+ * single-quoted values (literal), double-quoted values (with `\n`, `\r`, `\t`,
+ * `\"` and `\\` escapes) and unquoted values (trimmed, with `#` starting an
+ * inline comment when preceded by whitespace).
+ */
+export function parseDotenv(content: string): { [name: string]: string } {
+  const result: { [name: string]: string } = {};
+  const lines = content.split(/\r?\n/);
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].trim();
+    if (line === '' || line.startsWith('#')) {
+      continue;
+    }
+
+    const match = /^(?:export\s+)?([\w.-]+)\s*=\s*(.*)$/.exec(line);
+    if (!match) {
+      throw new Error(`invalid syntax in line ${i + 1}: ${line}`);
+    }
+
+    const [, key, rawValue] = match;
+    let value = rawValue;
+
+    if (value.startsWith('"') || value.startsWith('\'')) {
+      const quote = value[0];
+
+      // quoted values may span multiple lines
+      while (!isClosed(value, quote) && i + 1 < lines.length) {
+        value += '\n' + lines[++i];
+      }
+
+      const end = closingQuote(value, quote);
+      if (end === -1) {
+        throw new Error(`unterminated quoted value for ${key}`);
+      }
+
+      value = value.substring(1, end);
+      if (quote === '"') {
+        value = value.replace(/\\([nrt"\\])/g, (_, c: string) => ESCAPES[c] ?? c);
+      }
+    } else {
+      value = value.replace(/\s+#.*$/, '').trim();
+    }
+
+    result[key] = value;
+  }
+
+  return result;
+}
+
+/**
+ * Reads and parses a `.env` file.
+ * @returns the variables or `undefined` if the file does not exist
+ */
+export function readDotenv(file: string): { [name: string]: string } | undefined {
+  if (!existsSync(file)) {
+    return undefined;
+  }
+
+  try {
+    return parseDotenv(readFileSync(file, 'utf-8'));
+  } catch (e) {
+    throw new Error(`unable to parse environment file ${file}: ${e.message}`);
+  }
+}
+
+function isClosed(value: string, quote: string) {
+  return closingQuote(value, quote) !== -1;
+}
+
+function closingQuote(value: string, quote: string) {
+  for (let i = 1; i < value.length; i++) {
+    if (quote === '"' && value[i] === '\\') {
+      i++; // skip escaped character
+      continue;
+    }
+
+    if (value[i] === quote) {
+      return i;
+    }
+  }
+
+  return -1;
+}
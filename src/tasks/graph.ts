@@ -0,0 +1,174 @@
+import { TasksManifest } from './model';
+
+/**
+ * An edge in the task graph: a task which spawns another task.
+ */
+export interface TaskGraphEdge {
+  /**
+   * The name of the spawning task.
+   */
+  readonly from: string;
+
+  /**
+   * The name of the spawned task.
+   */
+  readonly to: string;
+
+  /**
+   * The condition of the spawned task (if it has one).
+   */
+  readonly condition?: string;
+
+  /**
+   * Whether the task is spawned as part of a `parallel` step.
+   */
+  readonly parallel: boolean;
+}
+
+/**
+ * The dependency graph of the tasks in a manifest, where nodes are tasks and
+ * edges are `spawn` (and `parallel`) steps.
+ */
+export class TaskGraph {
+  /**
+   * The names of all tasks in the graph (sorted).
+   */
+  public readonly tasks: string[];
+
+  /**
+   * All edges in the graph, in order of the spawning steps.
+   */
+  public readonly edges: TaskGraphEdge[];
+
+  constructor(manifest: TasksManifest, root?: string) {
+    const specs = manifest.tasks ?? {};
+    if (root && !specs[root]) {
+      throw new Error(`cannot find task "${root}"`);
+    }
+
+    const tasks = new Set<string>();
+    const edges = new Array<TaskGraphEdge>();
+
+    const visit = (name: string) => {
+      if (tasks.has(name)) {
+        return;
+      }
+
+      tasks.add(name);
+
+      for (const step of specs[name]?.steps ?? []) {
+        const spawned = step.spawn ? [step.spawn] : step.parallel ?? [];
+        for (const to of spawned) {
+          edges.push({ from: name, to, condition: specs[to]?.condition, parallel: !!step.parallel });
+          visit(to);
+        }
+      }
+    };
+
+    for (const name of root ? [root] : Object.keys(specs).sort()) {
+      visit(name);
+    }
+
+    this.tasks = [...tasks].sort();
+    this.edges = edges;
+  }
+
+  /**
+   * Finds a cycle in the graph.
+   *
+   * @returns the names of the tasks in the cycle, starting and ending with the
+   * same task, or `undefined` if the graph has no cycles
+   */
+  public findCycle(): string[] | undefined {
+    const done = new Set<string>();
+    const path = new Array<string>();
+
+    const visit = (name: string): string[] | undefined => {
+      const idx = path.indexOf(name);
+      if (idx !== -1) {
+        return [...path.slice(idx), name];
+      }
+
+      if (done.has(name)) {
+        return undefined;
+      }
+
+      path.push(name);
+      for (const edge of this.edges.filter(e => e.from === name)) {
+        const cycle = visit(edge.to);
+        if (cycle) {
+          return cycle;
+        }
+      }
+      path.pop();
+
+      done.add(name);
+      return undefined;
+    };
+
+    for (const name of this.tasks) {
+      const cycle = visit(name);
+      if (cycle) {
+        return cycle;
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Renders the graph in Graphviz DOT format.
+   */
+  public toDot(): string {
+    const quote = (s: string) => `"${s.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+
+    const lines = new Array<string>();
+    lines.push('digraph tasks {');
+    lines.push('  rankdir=LR;');
+
+    for (const task of this.tasks) {
+      lines.push(`  ${quote(task)};`);
+    }
+
+    for (const edge of this.edges) {
+      const attrs = new Array<string>();
+      if (edge.condition) {
+        attrs.push(`label=${quote(edge.condition)}`);
+      }
+      if (edge.parallel) {
+        attrs.push('style=dashed');
+      }
+
+      const suffix = attrs.length > 0 ? ` [${attrs.join(', ')}]` : '';
+      lines.push(`  ${quote(edge.from)} -> ${quote(edge.to)}${suffix};`);
+    }
+
+    lines.push('}');
+    return lines.join('\n') + '\n';
+  }
+
+  /**
+   * Renders the graph as a Mermaid flowchart.
+   */
+  public toMermaid(): string {
+    // task names may include characters which are not allowed in mermaid ids
+    // (such as ":"), so nodes are identified by their index.
+    const ids = new Map(this.tasks.map((t, i) => [t, `t${i}`]));
+    const quote = (s: string) => `"${s.replace(/"/g, '#quot;')}"`;
+
+    const lines = new Array<string>();
+    lines.push('graph LR');
+
+    for (const task of this.tasks) {
+      lines.push(`  ${ids.get(task)}[${quote(task)}]`);
+    }
+
+    for (const edge of this.edges) {
+      const arrow = edge.parallel ? '-.->' : '-->';
+      const label = edge.condition ? `|${quote(edge.condition)}|` : '';
+      lines.push(`  ${ids.get(edge.from)} ${arrow}${label} ${ids.get(edge.to)}`);
+    }
+
+    return lines.join('\n') + '\n';
+  }
+}
@@ -11,6 +11,14 @@ export interface TasksManifest {
    * Environment for all tasks.
    */
   readonly env?: { [name: string]: string };
+
+  /**
+   * Environment files for all tasks. Variables loaded from the environment
+   * files of a task take precedence.
+   *
+   * @see TaskCommonOptions.envFiles
+   */
+  readonly envFiles?: string[];
 }
 
 export interface TaskCommonOptions {
@@ -34,6 +42,20 @@ export interface TaskCommonOptions {
    */
   readonly env?: { [name: string]: string };
 
+  /**
+   * Files (relative to the project root) with environment variables for the
+   * execution of this task, in `.env` format. Files which don't exist are
+   * ignored, so they don't need to be committed.
+   *
+   * If an environment is selected (`projen TASK --env NAME`), variables are
+   * also loaded from `FILE.NAME` (e.g. `.env.staging`), which take precedence.
+   * Variables in `process.env` and in `env` take precedence over variables
+   * loaded from files.
+   *
+   * @default - no environment files
+   */
+  readonly envFiles?: string[];
+
   /**
    * A shell command which determines if the this task should be executed. If
    * the program exits with a zero exit code, steps will be executed. A non-zero
@@ -48,6 +70,28 @@ export interface TaskCommonOptions {
    * @default - process.cwd()
    */
   readonly cwd?: string;
+
+  /**
+   * Glob patterns (relative to the task's working directory) of the files
+   * this task reads. If specified, the task is skipped when the contents of
+   * these files (and the task definition) did not change since the last
+   * successful execution.
+   *
+   * The cache is stored under `.projen/cache`.
+   *
+   * @default - the task is always executed
+   */
+  readonly inputs?: string[];
+
+  /**
+   * Glob patterns (relative to the task's working directory) of the files
+   * this task produces. Only applies if `inputs` are specified. The task is
+   * executed again if any of these files changed or was deleted since the last
+   * successful execution.
+   *
+   * @default - outputs are not considered
+   */
+  readonly outputs?: string[];
 }
 
 
@@ -92,6 +136,51 @@ export interface TaskStepOptions {
    * @default - determined by the task
    */
   readonly cwd?: string;
+
+  /**
+   * The maximum number of seconds an `exec` step is allowed to run. If it runs
+   * longer, the command (and every process it started) is terminated and the
+   * attempt fails. Not supported for other steps.
+   *
+   * @default - no timeout
+   */
+  readonly timeout?: number;
+
+  /**
+   * Append the arguments passed to the task through the CLI (after `--`) to
+   * the command of this `exec` step. For example, `projen test -- -t "my test"`.
+   * For `spawn` and `parallel` steps, the arguments are passed to the subtasks.
+   *
+   * @default false
+   */
+  readonly receiveArgs?: boolean;
+
+  /**
+   * Retry an `exec` step if it fails (or times out). Not supported for other
+   * steps.
+   *
+   * @default - the step is not retried
+   */
+  readonly retry?: TaskStepRetry;
+}
+
+/**
+ * Retry policy for task steps.
+ */
+export interface TaskStepRetry {
+  /**
+   * The maximum number of times to retry the step after the first attempt
+   * failed.
+   */
+  readonly count: number;
+
+  /**
+   * The number of seconds to wait before the first retry. The delay is
+   * doubled before each subsequent retry.
+   *
+   * @default 1
+   */
+  readonly backoff?: number;
 }
 
 /**
@@ -118,5 +207,33 @@ export interface TaskStep extends TaskStepOptions {
    * @default - don't say anything
    */
   readonly say?: string;
+
+  /**
+   * Subtasks to execute concurrently, by name. The step completes after all
+   * subtasks completed successfully. If any of them fails, the rest are
+   * stopped and the step fails.
+   *
+   * @default - don't spawn parallel subtasks
+   */
+  readonly parallel?: string[];
+
+  /**
+   * The maximum number of `parallel` subtasks to execute at the same time.
+   *
+   * @default - the number of CPUs
+   */
+  readonly concurrency?: number;
+}
+
+/**
+ * Options for parallel steps.
+ */
+export interface ParallelStepOptions extends TaskStepOptions {
+  /**
+   * The maximum number of subtasks to execute at the same time.
+   *
+   * @default - the number of CPUs
+   */
+  readonly concurrency?: number;
 }
 
@@ -0,0 +1,143 @@
+import { ChildProcess, spawn } from 'child_process';
+import { platform } from 'os';
+import * as chalk from 'chalk';
+
+/**
+ * Runs a group of tasks concurrently, each in its own projen process, and
+ * prefixes every line of their output with the task name.
+ *
+ * This module is executed by `TaskRuntime` as a child process for `parallel`
+ * steps so that the runtime itself can remain synchronous:
+ *
+ *    node parallel.js CONCURRENCY TASK... [-- ARG...]
+ *
+ * Arguments after `--` are passed to every task (for steps with `receiveArgs`).
+ * Exits with a non-zero code if any of the tasks failed, after stopping all
+ * the tasks that are still running.
+ */
+
+const PROJEN_CLI = require.resolve('../cli');
+
+function main(args: string[]) {
+  const separator = args.indexOf('--');
+  const [concurrencyArg, ...tasks] = separator === -1 ? args : args.slice(0, separator);
+  const taskArgs = separator === -1 ? [] : args.slice(separator);
+  const concurrency = parseInt(concurrencyArg, 10);
+  if (!Number.isInteger(concurrency) || concurrency < 1 || tasks.length === 0) {
+    throw new Error('usage: parallel.js CONCURRENCY TASK... [-- ARG...]');
+  }
+
+  const width = Math.max(...tasks.map(t => t.length));
+  const queue = [...tasks];
+  const running = new Set<ChildProcess>();
+  let failure: string | undefined;
+
+  // on posix, a detached child leads its own process group so we can stop it
+  // together with everything it spawned. this also means it won't receive
+  // signals sent to our group (e.g. ctrl-c), so we forward them.
+  const detached = platform() !== 'win32';
+  const stopAll = () => {
+    for (const child of running) {
+      kill(child, detached);
+    }
+  };
+
+  for (const signal of ['SIGINT', 'SIGTERM'] as NodeJS.Signals[]) {
+    process.on(signal, () => {
+      stopAll();
+      process.exit(1);
+    });
+  }
+
+  const next = () => {
+    if (failure) {
+      return;
+    }
+
+    while (queue.length > 0 && running.size < concurrency) {
+      start(queue.shift()!);
+    }
+  };
+
+  const start = (task: string) => {
+    const child = spawn(process.execPath, [PROJEN_CLI, task, ...taskArgs], {
+      stdio: ['ignore', 'pipe', 'pipe'],
+      detached,
+    });
+
+    running.add(child);
+
+    const prefix = `${chalk.bold(task.padEnd(width))} | `;
+    const flushStdout = prefixLines(child.stdout!, prefix, process.stdout);
+    const flushStderr = prefixLines(child.stderr!, prefix, process.stderr);
+
+    child.on('close', (code, signal) => {
+      flushStdout();
+      flushStderr();
+      running.delete(child);
+
+      if (failure) {
+        return;
+      }
+
+      if (code !== 0) {
+        failure = `Task "${task}" failed (${signal ? `killed by ${signal}` : `exit code ${code}`})`;
+        process.stderr.write(`${chalk.red(failure)}\n`);
+        process.exitCode = 1;
+        stopAll();
+        return;
+      }
+
+      next();
+    });
+  };
+
+  next();
+}
+
+/**
+ * Writes every line from `input` to `output` with a prefix.
+ * @returns a function that writes the last incomplete line (if any).
+ */
+function prefixLines(input: NodeJS.ReadableStream, prefix: string, output: NodeJS.WritableStream) {
+  let pending = '';
+
+  input.on('data', (chunk: Buffer) => {
+    const lines = (pending + chunk.toString('utf-8')).split('\n');
+    pending = lines.pop()!;
+    for (const line of lines) {
+      output.write(`${prefix}${line}\n`);
+    }
+  });
+
+  return () => {
+    if (pending) {
+      output.write(`${prefix}${pending}\n`);
+      pending = '';
+    }
+  };
+}
+
+/**
+ * Stops a child process (and, with `group`, the process group it leads).
+ */
+export function kill(child: ChildProcess, group: boolean) {
+  try {
+    if (group && child.pid) {
+      process.kill(-child.pid, 'SIGTERM');
+    } else {
+      child.kill('SIGTERM');
+    }
+  } catch {
+    // already exited
+  }
+}
+
+if (require.main === module) {
+  try {
+    main(process.argv.slice(2));
+  } catch (e) {
+    process.stderr.write(`${e.message}\n`);
+    process.exitCode = 1;
+  }
+}
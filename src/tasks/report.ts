@@ -0,0 +1,208 @@
+import { create as createxml } from 'xmlbuilder2';
+import { TaskStep } from './model';
+
+/**
+ * The outcome of a task or a step.
+ */
+export type ExecutionStatus = 'success' | 'failure' | 'skipped';
+
+/**
+ * The record of a step execution.
+ */
+export interface StepReport {
+  /**
+   * A human-readable description of the step (its name or command).
+   */
+  readonly name: string;
+
+  /**
+   * The step, as defined in the tasks manifest.
+   */
+  readonly step: TaskStep;
+
+  /**
+   * Start time (ISO 8601).
+   */
+  readonly start: string;
+
+  /**
+   * Duration in milliseconds.
+   */
+  duration?: number;
+
+  status?: ExecutionStatus;
+
+  /**
+   * The exit code of the last attempt of an `exec` step.
+   */
+  exitCode?: number | null;
+
+  /**
+   * The number of times an `exec` step was attempted.
+   */
+  attempts?: number;
+
+  /**
+   * The reason the step failed.
+   */
+  error?: string;
+
+  /**
+   * The report of the subtask executed by a `spawn` step.
+   */
+  subtask?: TaskReport;
+}
+
+/**
+ * The record of a task execution.
+ */
+export interface TaskReport {
+  /**
+   * The name of the task
+   */
+  readonly name: string;
+
+  /**
+   * The name of the task including the names of its parents.
+   */
+  readonly fullname: string;
+
+  /**
+   * Start time (ISO 8601).
+   */
+  readonly start: string;
+
+  /**
+   * Duration in milliseconds.
+   */
+  duration?: number;
+
+  status?: ExecutionStatus;
+
+  /**
+   * Why the task was skipped (if it was).
+   */
+  skipReason?: string;
+
+  readonly steps: StepReport[];
+}
+
+/**
+ * Records the execution of tasks and their steps (including subtasks) for
+ * `--report`.
+ */
+export class TaskRecorder {
+  /**
+   * The report of the first task that was executed (and its subtasks).
+   */
+  public root?: TaskReport;
+
+  private readonly tasks = new Array<TaskReport>();
+  private readonly steps = new Array<StepReport>();
+  private readonly startTimes = new Map<TaskReport | StepReport, number>();
+
+  public taskStarted(name: string, fullname: string) {
+    const task: TaskReport = { name, fullname, start: new Date().toISOString(), steps: [] };
+    this.startTimes.set(task, Date.now());
+
+    // a task which starts while a step is running was spawned by it
+    const parentStep = this.steps[this.steps.length - 1];
+    if (parentStep) {
+      parentStep.subtask = task;
+    } else if (!this.root) {
+      this.root = task;
+    }
+
+    this.tasks.push(task);
+  }
+
+  public taskSkipped(reason: string) {
+    const task = this.tasks[this.tasks.length - 1];
+    task.skipReason = reason;
+    this.taskFinished('skipped');
+  }
+
+  public taskFinished(status: ExecutionStatus) {
+    const task = this.tasks.pop()!;
+    task.status = status;
+    task.duration = Date.now() - this.startTimes.get(task)!;
+  }
+
+  public stepStarted(name: string, step: TaskStep) {
+    const report: StepReport = { name, step, start: new Date().toISOString() };
+    this.startTimes.set(report, Date.now());
+    this.tasks[this.tasks.length - 1].steps.push(report);
+    this.steps.push(report);
+  }
+
+  public stepAttempted(exitCode: number | null) {
+    const step = this.steps[this.steps.length - 1];
+    step.exitCode = exitCode;
+    step.attempts = (step.attempts ?? 0) + 1;
+  }
+
+  public stepFinished(status: ExecutionStatus, error?: string) {
+    const step = this.steps.pop()!;
+    step.status = status;
+    step.error = error;
+    step.duration = Date.now() - this.startTimes.get(step)!;
+  }
+}
+
+/**
+ * Renders a task report as JSON.
+ */
+export function renderJsonReport(report: TaskReport) {
+  return JSON.stringify(report, undefined, 2) + '\n';
+}
+
+/**
+ * Renders a task report as JUnit XML. Every task (including subtasks) is
+ * rendered as a test suite and every step as a test case.
+ */
+export function renderJUnitReport(report: TaskReport) {
+  const tasks = new Array<TaskReport>();
+  const collect = (task: TaskReport) => {
+    tasks.push(task);
+    for (const step of task.steps) {
+      if (step.subtask) {
+        collect(step.subtask);
+      }
+    }
+  };
+  collect(report);
+
+  const seconds = (ms?: number) => ((ms ?? 0) / 1000).toFixed(3);
+
+  const suites = tasks.map(task => {
+    // a skipped task is rendered as a single skipped test case
+    const cases = task.status === 'skipped'
+      ? [{ '@name': task.name, '@classname': task.fullname, '@time': seconds(0), 'skipped': { '@message': task.skipReason } }]
+      : task.steps.map(step => ({
+        '@name': step.name,
+        '@classname': task.fullname,
+        '@time': seconds(step.duration),
+        ...step.status === 'failure' ? { failure: { '@message': step.error ?? 'failed' } } : {},
+      }));
+
+    return {
+      '@name': task.fullname,
+      '@timestamp': task.start,
+      '@time': seconds(task.duration),
+      '@tests': cases.length,
+      '@failures': task.steps.filter(s => s.status === 'failure').length,
+      '@skipped': task.status === 'skipped' ? 1 : 0,
+      'testcase': cases,
+    };
+  });
+
+  return createxml({ encoding: 'UTF-8' }, {
+    testsuites: {
+      '@name': report.fullname,
+      '@time': seconds(report.duration),
+      '@tests': suites.reduce((sum, s) => sum + s['@tests'], 0),
+      '@failures': suites.reduce((sum, s) => sum + s['@failures'], 0),
+      'testsuite': suites,
+    },
+  }).end({ prettyPrint: true, indent: ' '.repeat(2) }) + '\n';
+}
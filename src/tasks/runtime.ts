@@ -1,12 +1,21 @@
 import { SpawnOptions, spawnSync } from 'child_process';
-import { existsSync, readFileSync, statSync } from 'fs';
-import { platform } from 'os';
-import { join, resolve } from 'path';
+import { existsSync, mkdirSync, readFileSync, statSync, writeFileSync } from 'fs';
+import { cpus, platform } from 'os';
+import { delimiter, dirname, extname, join, resolve } from 'path';
 import { format } from 'util';
 import * as chalk from 'chalk';
 import * as logging from '../logging';
-import { TasksManifest, TaskSpec } from './model';
+import { isTruthy } from '../util';
+import { TaskCache } from './cache';
+import { readDotenv } from './dotenv';
+import { TaskGraph } from './graph';
+import { TasksManifest, TaskSpec, TaskStep } from './model';
+import { renderJsonReport, renderJUnitReport, TaskRecorder, TaskReport } from './report';
 import { Tasks } from './tasks';
+import { TIMEOUT_EXIT_CODE } from './timeout';
+
+const PARALLEL_RUNNER = require.resolve('./parallel');
+const TIMEOUT_RUNNER = require.resolve('./timeout');
 
 /**
  * The runtime component of the tasks engine.
@@ -22,6 +31,8 @@ export class TaskRuntime {
    */
   public readonly workdir: string;
 
+  private recorder?: TaskRecorder;
+
   constructor(workdir: string) {
     this.workdir = resolve(workdir);
     const manifestPath = join(this.workdir, Tasks.MANIFEST_FILE);
@@ -48,72 +59,234 @@ export class TaskRuntime {
   /**
    * Runs the task.
    * @param name The task name.
+   * @param parents The names of the parent tasks (if this is a subtask)
+   * @param args Arguments to append to steps with `receiveArgs`
    */
-  public runTask(name: string, parents: string[] = []) {
+  public runTask(name: string, parents: string[] = [], args: string[] = []) {
     const task = this.tryFindTask(name);
     if (!task) {
       throw new Error(`cannot find command ${task}`);
     }
 
-    new RunTask(this, task, parents);
+    // spawn cycles would otherwise recurse infinitely
+    if (parents.length === 0) {
+      const cycle = new TaskGraph(this.manifest, name).findCycle();
+      if (cycle) {
+        throw new Error(`Task "${name}" cannot be executed because its subtasks form a cycle: ${cycle.join(' » ')}`);
+      }
+    }
+
+    // record an execution report if requested (only for the top-level task
+    // since subtasks are recorded as part of it)
+    const reportFiles = parents.length === 0
+      ? (process.env.PROJEN_TASK_REPORT ?? '').split(delimiter).filter(f => f)
+      : [];
+    if (reportFiles.length > 0) {
+      this.recorder = new TaskRecorder();
+    }
+
+    try {
+      new RunTask(this, task, parents, args, this.recorder);
+    } finally {
+      if (reportFiles.length > 0) {
+        this.writeReports(reportFiles, this.recorder!.root!);
+        this.recorder = undefined;
+      }
+    }
+  }
+
+  /**
+   * Writes the execution report to files. Files with an `.xml` extension are
+   * written in JUnit XML format, all others in JSON.
+   */
+  private writeReports(files: string[], report: TaskReport) {
+    for (const file of files) {
+      const content = extname(file) === '.xml'
+        ? renderJUnitReport(report)
+        : renderJsonReport(report);
+      mkdirSync(dirname(file), { recursive: true });
+      writeFileSync(file, content);
+    }
   }
 }
 
 class RunTask {
   private readonly env: { [name: string]: string | undefined } = { };
+  private readonly fileEnv: { [name: string]: string } = { };
   private readonly parents: string[];
 
   private readonly workdir: string;
 
-  constructor(private readonly runtime: TaskRuntime, private readonly task: TaskSpec, parents: string[] = []) {
+  constructor(
+    private readonly runtime: TaskRuntime,
+    private readonly task: TaskSpec,
+    parents: string[] = [],
+    private readonly args: string[] = [],
+    private readonly recorder?: TaskRecorder) {
+
     this.workdir = task.cwd ?? this.runtime.workdir;
 
     this.parents = parents;
-    this.env = { ...process.env };
-    this.env = this.resolveEnvironment();
+    this.recorder?.taskStarted(task.name, this.fullname);
+
+    try {
+      this.fileEnv = this.loadEnvFiles();
+      this.env = { ...this.fileEnv, ...process.env };
+      this.env = this.resolveEnvironment();
+      this.run();
+    } catch (e) {
+      this.recorder?.taskFinished('failure');
+      throw e;
+    }
+  }
+
+  private run() {
+    const task = this.task;
 
     // evaluate condition
     if (!this.evalCondition(task)) {
       this.log('condition exited with non-zero - skipping');
+      this.recorder?.taskSkipped('condition exited with non-zero');
+      return;
+    }
+
+    // skip if inputs and outputs did not change since the last successful
+    // execution (unless PROJEN_NO_CACHE is set)
+    const cache = task.inputs ? new TaskCache(this.runtime.workdir) : undefined;
+    const fingerprint = cache?.fingerprint(task, this.workdir, this.definedEnv(), this.args);
+    if (cache && fingerprint && !isTruthy(process.env.PROJEN_NO_CACHE) && cache.isUpToDate(task.name, fingerprint)) {
+      this.log('inputs did not change since the last successful execution - skipping');
+      this.recorder?.taskSkipped('inputs did not change since the last successful execution');
       return;
     }
 
     for (const step of task.steps ?? []) {
-      if (step.say) {
-        logging.info(this.fmtLog(step.say));
+      this.recorder?.stepStarted(describeStep(step), step);
+      try {
+        this.runStep(step);
+      } catch (e) {
+        this.recorder?.stepFinished('failure', e.message);
+        throw e;
       }
+      this.recorder?.stepFinished('success');
+    }
 
-      if (step.spawn) {
-        this.runtime.runTask(step.spawn, [...this.parents, this.task.name]);
-      }
+    if (cache && fingerprint) {
+      // inputs are hashed before execution (so changes made while the task
+      // was running are picked up next time) and outputs after.
+      const after = cache.fingerprint(task, this.workdir, this.definedEnv(), this.args)!;
+      cache.update(task.name, { inputs: fingerprint.inputs, outputs: after.outputs });
+    }
 
-      if (step.exec) {
-        let command = '';
-        let hasError = false;
-        const cmd = step.exec.split(' ')[0];
-        if (platform() == 'win32' && ['mkdir', 'mv', 'rm'].includes(cmd)) {
-          command = `shx ${step.exec}`;
-        } else {
-          command = step.exec;
-        }
-        const cwd = step.cwd;
-        try {
-          const result = this.shell({
-            command,
-            cwd,
-          });
-          hasError = result.status !== 0;
-        } catch (e) {
-          // This is the error 'shx' will throw
-          if (e?.message?.startsWith('non-zero exit code:')) {
-            hasError = true;
-          }
-          throw e;
-        }
-        if (hasError) {
-          throw new Error(`Task "${this.fullname}" failed when executing "${command}" (cwd: ${resolve(cwd ?? this.workdir)})`);
+    this.recorder?.taskFinished('success');
+  }
+
+  private runStep(step: TaskStep) {
+    if (step.say) {
+      logging.info(this.fmtLog(step.say));
+    }
+
+    if (step.spawn) {
+      this.runtime.runTask(step.spawn, [...this.parents, this.task.name], step.receiveArgs ? this.args : []);
+    }
+
+    if (step.parallel) {
+      this.runParallel(step);
+    }
+
+    if (step.exec) {
+      this.runExec(step);
+    }
+  }
+
+  /**
+   * Executes a shell command step, retrying it according to its retry policy.
+   */
+  private runExec(step: TaskStep) {
+    let command = '';
+    const cmd = step.exec!.split(' ')[0];
+    if (platform() == 'win32' && ['mkdir', 'mv', 'rm'].includes(cmd)) {
+      command = `shx ${step.exec}`;
+    } else {
+      command = step.exec!;
+    }
+    if (step.receiveArgs && this.args.length > 0) {
+      command = [command, ...this.args.map(quoteArg)].join(' ');
+    }
+    const cwd = step.cwd;
+    const attempts = (step.retry?.count ?? 0) + 1;
+
+    for (let attempt = 1; ; attempt++) {
+      let hasError = false;
+      let timedOut = false;
+      try {
+        const result = this.shell({
+          command,
+          cwd,
+          timeout: step.timeout,
+        });
+        this.recorder?.stepAttempted(result.status);
+        hasError = result.status !== 0;
+        timedOut = step.timeout !== undefined && result.status === TIMEOUT_EXIT_CODE;
+      } catch (e) {
+        // This is the error 'shx' will throw
+        if (e?.message?.startsWith('non-zero exit code:')) {
+          hasError = true;
         }
+        throw e;
       }
+
+      if (!hasError) {
+        return;
+      }
+
+      const reason = timedOut ? `timed out after ${step.timeout}s` : undefined;
+
+      if (attempt < attempts) {
+        const backoff = (step.retry?.backoff ?? 1) * 2 ** (attempt - 1);
+        logging.warn(this.fmtLog(`"${command}" ${reason ?? 'failed'} (attempt ${attempt}/${attempts}) - retrying in ${backoff}s`));
+        sleep(backoff);
+        continue;
+      }
+
+      const details = [`cwd: ${resolve(cwd ?? this.workdir)}`];
+      if (attempts > 1) {
+        details.push(`attempt ${attempt}/${attempts}`);
+      }
+      if (reason) {
+        details.push(reason);
+      }
+      throw new Error(`Task "${this.fullname}" failed when executing "${command}" (${details.join(', ')})`);
+    }
+  }
+
+  /**
+   * Executes a group of subtasks concurrently. Each subtask is executed in its
+   * own projen process (through a runner process), which allows the runtime to
+   * remain synchronous. Like spawned subtasks, they see the environment of the
+   * projen process (not the variables loaded or defined for this task) and,
+   * with `receiveArgs`, receive the arguments of this task.
+   */
+  private runParallel(step: TaskStep) {
+    const names = step.parallel!;
+    const concurrency = step.concurrency ?? cpus().length;
+    for (const name of names) {
+      if (!this.runtime.tryFindTask(name)) {
+        throw new Error(`Task "${this.fullname}" cannot find subtask "${name}"`);
+      }
+    }
+
+    this.log(`parallel (concurrency: ${concurrency}): ${names.join(', ')}`);
+    const args = step.receiveArgs && this.args.length > 0 ? ['--', ...this.args] : [];
+    const result = spawnSync(process.execPath, [PARALLEL_RUNNER, concurrency.toString(), ...names, ...args], {
+      cwd: this.runtime.workdir,
+      stdio: 'inherit',
+      // parallel subtasks are recorded as a single step
+      env: { ...process.env, PROJEN_TASK_REPORT: undefined },
+    });
+
+    if (result.status !== 0) {
+      throw new Error(`Task "${this.fullname}" failed when executing parallel subtasks: ${names.join(', ')}`);
     }
   }
 
@@ -157,7 +330,7 @@ class RunTask {
     };
 
     const output: { [name: string]: string | undefined } = {
-      ...process.env,
+      ...this.env,
     };
 
     for (const [key, value] of Object.entries(env ?? {})) {
@@ -180,6 +353,61 @@ class RunTask {
     return output;
   }
 
+  /**
+   * Loads variables from the environment files of the project and the task.
+   * If an environment is selected (`PROJEN_ENV`), environment-specific files
+   * (`FILE.ENV`) are loaded after all the base files, so they take precedence.
+   */
+  private loadEnvFiles() {
+    const files = [
+      ...this.runtime.manifest.envFiles ?? [],
+      ...this.task.envFiles ?? [],
+    ].map(f => resolve(this.runtime.workdir, f));
+
+    const environment = process.env.PROJEN_ENV;
+    const result: { [name: string]: string } = {};
+
+    for (const file of files) {
+      Object.assign(result, readDotenv(file));
+    }
+
+    if (environment && files.length > 0) {
+      let found = false;
+      for (const file of files) {
+        const vars = readDotenv(`${file}.${environment}`);
+        if (vars) {
+          Object.assign(result, vars);
+          found = true;
+        }
+      }
+
+      if (!found) {
+        throw new Error(`Task "${this.fullname}" cannot find environment files for "${environment}": ${files.map(f => `${f}.${environment}`).join(', ')}`);
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * The variables defined for this task (through the manifest, the task or
+   * environment files) and their resolved values.
+   */
+  private definedEnv() {
+    const names = new Set([
+      ...Object.keys(this.fileEnv),
+      ...Object.keys(this.runtime.manifest.env ?? {}),
+      ...Object.keys(this.task.env ?? {}),
+    ]);
+
+    const result: { [name: string]: string | undefined } = {};
+    for (const name of names) {
+      result[name] = this.env[name];
+    }
+
+    return result;
+  }
+
   /**
    * Returns the "full name" of the task which includes all it's parent task names concatenated by chevrons.
    */
@@ -218,6 +446,17 @@ class RunTask {
       throw new Error(`invalid workdir (cwd): ${cwd} must be an existing directory`);
     }
 
+    // commands with a timeout are executed through a runner process which can
+    // stop everything the command started (not just the shell)
+    if (options.timeout !== undefined) {
+      return spawnSync(process.execPath, [TIMEOUT_RUNNER, options.timeout.toString(), options.command], {
+        cwd,
+        stdio: 'inherit',
+        env: this.env,
+        ...options.spawnOptions,
+      });
+    }
+
     return spawnSync(options.command, {
       ...options,
       cwd,
@@ -249,4 +488,54 @@ interface ShellOptions {
   readonly spawnOptions?: SpawnOptions;
   /** @default false */
   readonly quiet?: boolean;
+  /**
+   * Timeout in seconds.
+   * @default - no timeout
+   */
+  readonly timeout?: number;
+}
+
+/**
+ * Returns a human-readable description of a step for reports.
+ */
+function describeStep(step: TaskStep) {
+  if (step.name) {
+    return step.name;
+  }
+
+  if (step.exec) {
+    return step.exec;
+  }
+
+  if (step.spawn) {
+    return `spawn: ${step.spawn}`;
+  }
+
+  if (step.parallel) {
+    return `parallel: ${step.parallel.join(', ')}`;
+  }
+
+  return `say: ${step.say ?? ''}`;
+}
+
+/**
+ * Quotes an argument so it is passed as-is to a command executed by the shell.
+ */
+function quoteArg(arg: string) {
+  if (/^[\w@%+=:,./-]+$/.test(arg)) {
+    return arg;
+  }
+
+  if (platform() === 'win32') {
+    return `"${arg.replace(/"/g, '\\"')}"`;
+  }
+
+  return `'${arg.replace(/'/g, "'\\''")}'`;
+}
+
+/**
+ * Blocks the current thread for the specified number of seconds.
+ */
+function sleep(seconds: number) {
+  Atomics.wait(new Int32Array(new SharedArrayBuffer(4)), 0, 0, seconds * 1000);
 }
@@ -1,4 +1,4 @@
-import { TaskCategory, TaskCommonOptions, TaskSpec, TaskStep, TaskStepOptions } from './model';
+import { ParallelStepOptions, TaskCategory, TaskCommonOptions, TaskSpec, TaskStep, TaskStepOptions } from './model';
 import { Tasks } from './tasks';
 
 
@@ -38,6 +38,9 @@ export class Task {
 
   private readonly _steps: TaskStep[];
   private readonly _env: { [name: string]: string };
+  private readonly _envFiles: string[];
+  private readonly _inputs: string[];
+  private readonly _outputs: string[];
   private readonly cwd?: string;
   private readonly tasks: Tasks;
 
@@ -50,7 +53,10 @@ export class Task {
     this.cwd = props.cwd;
 
     this._env = props.env ?? {};
+    this._envFiles = [...props.envFiles ?? []];
     this._steps = [];
+    this._inputs = [...props.inputs ?? []];
+    this._outputs = [...props.outputs ?? []];
 
     if (props.exec) {
       this.exec(props.exec);
@@ -77,6 +83,7 @@ export class Task {
    * @param options Options
    */
   public exec(command: string, options: TaskStepOptions = { }) {
+    validateStepOptions(options);
     this._steps.push({ exec: command, ...options });
   }
 
@@ -104,14 +111,38 @@ export class Task {
    * @param subtask The subtask to execute.
    */
   public spawn(subtask: Task, options: TaskStepOptions = {}) {
+    validateSpawnOptions(options);
     this._steps.push({ spawn: subtask.name, ...options });
   }
 
+  /**
+   * Spawns multiple sub-tasks concurrently. Each line of their output is
+   * prefixed with the name of the subtask. If any of the subtasks fails, the
+   * others are stopped and the task fails. In `toShellCommand()`, the
+   * subtasks are executed sequentially.
+   *
+   * @param subtasks The subtasks to execute.
+   */
+  public spawnParallel(subtasks: Task[], options: ParallelStepOptions = {}) {
+    if (subtasks.length === 0) {
+      throw new Error('at least one subtask is required for a parallel step');
+    }
+
+    if (options.concurrency !== undefined && (!Number.isInteger(options.concurrency) || options.concurrency < 1)) {
+      throw new Error(`"concurrency" must be a positive integer. got: ${options.concurrency}`);
+    }
+
+    validateSpawnOptions(options);
+
+    this._steps.push({ parallel: subtasks.map(t => t.name), ...options });
+  }
+
   /**
    * Adds a command at the beginning of the task.
    * @param shell The command to add.
    */
   public prependExec(shell: string, options: TaskStepOptions = {}) {
+    validateStepOptions(options);
     this._steps.unshift({
       exec: shell,
       ...options,
@@ -123,6 +154,7 @@ export class Task {
    * @param subtask The subtask to execute.
    */
   public prependSpawn(subtask: Task, options: TaskStepOptions = {}) {
+    validateSpawnOptions(options);
     this._steps.unshift({
       spawn: subtask.name,
       ...options,
@@ -151,6 +183,47 @@ export class Task {
     this._env[name] = value;
   }
 
+  /**
+   * Loads environment variables for this task from a file in `.env` format.
+   * Missing files are ignored.
+   * @param file The path of the file relative to the project root
+   */
+  public addEnvFile(file: string) {
+    this._envFiles.push(file);
+  }
+
+  /**
+   * Adds glob patterns of files this task reads. Once a task has inputs, it is
+   * skipped if they did not change since its last successful execution.
+   * @param globs Glob patterns relative to the task's working directory
+   */
+  public addInputs(...globs: string[]) {
+    this._inputs.push(...globs);
+  }
+
+  /**
+   * Adds glob patterns of files this task produces. The task is executed again
+   * if these files changed since its last successful execution.
+   * @param globs Glob patterns relative to the task's working directory
+   */
+  public addOutputs(...globs: string[]) {
+    this._outputs.push(...globs);
+  }
+
+  /**
+   * Returns a copy of the input glob patterns of this task.
+   */
+  public get inputs(): string[] {
+    return [...this._inputs];
+  }
+
+  /**
+   * Returns a copy of the output glob patterns of this task.
+   */
+  public get outputs(): string[] {
+    return [...this._outputs];
+  }
+
   /**
    * Returns an immutable copy of all the step specifications of the task.
    */
@@ -160,6 +233,9 @@ export class Task {
 
   /**
    * Renders this task as a single shell command.
+   *
+   * Parallel subtasks are rendered sequentially, since there is no portable
+   * way to stop the other subtasks and fail if one of them fails.
    */
   public toShellCommand(): string {
     const cmd = new Array<string>();
@@ -177,6 +253,14 @@ export class Task {
           throw new Error(`unable to resolve subtask ${step.spawn}`);
         }
 
+        cmd.push(`( ${subtask.toShellCommand()} )`);
+      }
+      for (const name of step.parallel ?? []) {
+        const subtask = this.tasks.tryFind(name);
+        if (!subtask) {
+          throw new Error(`unable to resolve subtask ${name}`);
+        }
+
         cmd.push(`( ${subtask.toShellCommand()} )`);
       }
     }
@@ -197,6 +281,39 @@ export class Task {
     return `( ${lines.join('')} ${withCondition} )`;
   }
 
+  /**
+   * Removes all steps which spawn a subtask (parallel steps are removed only
+   * if they don't spawn any other subtask).
+   *
+   * @param subtask The name of the subtask
+   * @internal
+   */
+  public _removeSpawns(subtask: string) {
+    for (let i = this._steps.length - 1; i >= 0; i--) {
+      const step = this._steps[i];
+      const parallel = step.parallel?.filter(name => name !== subtask);
+      if (step.spawn === subtask || parallel?.length === 0) {
+        this._steps.splice(i, 1);
+      } else if (parallel) {
+        this._steps[i] = { ...step, parallel };
+      }
+    }
+  }
+
+  /**
+   * Removes all steps which execute a shell command.
+   *
+   * @param command The command
+   * @internal
+   */
+  public _removeExec(command: string) {
+    for (let i = this._steps.length - 1; i >= 0; i--) {
+      if (this._steps[i].exec === command) {
+        this._steps.splice(i, 1);
+      }
+    }
+  }
+
   /**
    * Renders a task spec into the manifest.
    *
@@ -208,9 +325,37 @@ export class Task {
       category: this.category,
       description: this.description,
       env: this._env,
+      envFiles: this._envFiles,
       steps: this._steps,
       condition: this.condition,
       cwd: this.cwd,
+      inputs: this._inputs,
+      outputs: this._outputs,
     };
   }
 }
+
+function validateSpawnOptions(options: TaskStepOptions) {
+  for (const option of ['timeout', 'retry'] as const) {
+    if (options[option] !== undefined) {
+      throw new Error(`"${option}" is only supported for exec steps`);
+    }
+  }
+}
+
+function validateStepOptions(options: TaskStepOptions) {
+  if (options.timeout !== undefined && !(options.timeout > 0)) {
+    throw new Error(`"timeout" must be a positive number of seconds. got: ${options.timeout}`);
+  }
+
+  if (options.retry) {
+    const { count, backoff } = options.retry;
+    if (!Number.isInteger(count) || count < 0) {
+      throw new Error(`"retry.count" must be a non-negative integer. got: ${count}`);
+    }
+
+    if (backoff !== undefined && !(backoff >= 0)) {
+      throw new Error(`"retry.backoff" must be a non-negative number of seconds. got: ${backoff}`);
+    }
+  }
+}
@@ -18,8 +18,15 @@ export class Tasks extends Component {
    */
   public static readonly MANIFEST_FILE = path.posix.join(PROJEN_DIR, 'tasks.json');
 
+  /**
+   * The project-relative path of the directory in which the task runtime
+   * caches the results of tasks with `inputs`.
+   */
+  public static readonly CACHE_DIR = path.posix.join(PROJEN_DIR, 'cache');
+
   private readonly _tasks: { [name: string]: Task };
   private readonly _env: { [name: string]: string };
+  private readonly _envFiles: string[];
 
   constructor(project: Project) {
     super(project);
@@ -27,12 +34,14 @@ export class Tasks extends Component {
     const manifestFile = Tasks.MANIFEST_FILE;
     this._tasks = {};
     this._env = {};
+    this._envFiles = [];
 
     new JsonFile(project, manifestFile, {
       omitEmpty: true,
       obj: {
         tasks: (() => this.renderTasks()) as any,
         env: (() => this._env) as any,
+        envFiles: (() => this._envFiles) as any,
       } as TasksManifest,
     });
   }
@@ -63,7 +72,7 @@ export class Tasks extends Component {
    * @returns The `Task` that was removed, otherwise `undefined`.
    */
   public removeTask(name: string): undefined | Task {
-    const dependentTasks = this.all.filter(task => task.steps.find(step => step.spawn == name));
+    const dependentTasks = this.all.filter(task => task.steps.find(step => step.spawn == name || step.parallel?.includes(name)));
     if (dependentTasks.length > 0) {
       const errList = dependentTasks.map(depTask => depTask.name).join(', ');
       throw new Error(`Unable to remove task "${name}" because the following tasks depend on it: ${errList}`);
@@ -87,6 +96,15 @@ export class Tasks extends Component {
     this._env[name] = value;
   }
 
+  /**
+   * Loads global environment from a file in `.env` format. Missing files are
+   * ignored.
+   * @param file The path of the file relative to the project root
+   */
+  public addEnvFile(file: string) {
+    this._envFiles.push(file);
+  }
+
   /**
    * Returns a copy of the currently global environment for this project.
    */
@@ -104,6 +122,13 @@ export class Tasks extends Component {
     return this._tasks[name];
   }
 
+  public preSynthesize() {
+    // the task cache is local to each working copy
+    if (this.all.some(t => t.inputs.length > 0)) {
+      this.project.gitignore.exclude(`/${Tasks.CACHE_DIR}/`);
+    }
+  }
+
   private renderTasks() {
     const tasks: { [name: string]: TaskSpec } = {};
     for (const task of Object.values(this._tasks)) {
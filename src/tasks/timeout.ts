@@ -0,0 +1,69 @@
+import { spawn } from 'child_process';
+import { platform } from 'os';
+import { kill } from './parallel';
+
+/**
+ * Executes a shell command and stops it, together with every process it
+ * started, if it runs for longer than a timeout.
+ *
+ * This module is executed by `TaskRuntime` as a child process for `exec`
+ * steps with a `timeout`, since a synchronous spawn can only stop the shell
+ * and not the processes started by the command:
+ *
+ *    node timeout.js SECONDS COMMAND
+ *
+ * Exits with the exit code of the command or `TIMEOUT_EXIT_CODE` if the
+ * command was stopped.
+ */
+
+/**
+ * The exit code if the command timed out (the same as GNU `timeout`).
+ */
+export const TIMEOUT_EXIT_CODE = 124;
+
+function main(args: string[]) {
+  const [timeoutArg, command] = args;
+  const timeout = parseFloat(timeoutArg);
+  if (args.length !== 2 || !(timeout > 0)) {
+    throw new Error('usage: timeout.js SECONDS COMMAND');
+  }
+
+  // on posix, a detached child leads its own process group so we can stop it
+  // together with everything it spawned. this also means it won't receive
+  // signals sent to our group (e.g. ctrl-c), so we forward them.
+  const detached = platform() !== 'win32';
+  const child = spawn(command, { shell: true, stdio: 'inherit', detached });
+
+  for (const signal of ['SIGINT', 'SIGTERM'] as NodeJS.Signals[]) {
+    process.on(signal, () => {
+      kill(child, detached);
+      process.exit(1);
+    });
+  }
+
+  let timedOut = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    kill(child, detached);
+  }, timeout * 1000);
+
+  child.on('error', e => {
+    clearTimeout(timer);
+    process.stderr.write(`${e.message}\n`);
+    process.exitCode = 1;
+  });
+
+  child.on('close', code => {
+    clearTimeout(timer);
+    process.exitCode = timedOut ? TIMEOUT_EXIT_CODE : code ?? 1;
+  });
+}
+
+if (require.main === module) {
+  try {
+    main(process.argv.slice(2));
+  } catch (e) {
+    process.stderr.write(`${e.message}\n`);
+    process.exitCode = 1;
+  }
+}
@@ -287,7 +287,9 @@ export class TypeScriptProject extends NodeProject {
     this.npmignore?.exclude('/.github');
     this.npmignore?.exclude('/.vscode');
     this.npmignore?.exclude('/.idea');
-    this.npmignore?.exclude('/.projenrc.js');
+    if (!this.ejected) {
+      this.npmignore?.exclude(`/${PROJEN_RC}`);
+    }
     this.npmignore?.exclude('tsconfig.tsbuildinfo');
 
     // tests are compiled to `lib/TESTDIR`, so we don't need jest to compile them for us.
@@ -314,7 +316,9 @@ export class TypeScriptProject extends NodeProject {
         return path.join(dir, filename);
       };
 
-      const resolver = new TextFile(this, path.posix.join(PROJEN_DIR, 'jest-snapshot-resolver.js'));
+      // the .projen directory is removed when the project is ejected
+      const resolverDir = this.ejected ? '.' : PROJEN_DIR;
+      const resolver = new TextFile(this, path.posix.join(resolverDir, 'jest-snapshot-resolver.js'));
       resolver.addLine('const path = require("path");');
       resolver.addLine(`const libtest = "${libtest}";`);
       resolver.addLine(`const srctest= "${srctest}";`);
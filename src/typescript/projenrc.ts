@@ -1,7 +1,7 @@
-import { existsSync, writeFileSync } from 'fs';
 import { resolve } from 'path';
+import { existsSync, removeSync, writeFileSync } from 'fs-extra';
 import { Component } from '../component';
-import { renderJavaScriptOptions } from '../javascript/render-options';
+import { ProjenrcLanguage, renderProjectOptions } from '../javascript/render-options';
 import { TypeScriptProject } from '../typescript';
 
 export interface ProjenrcOptions {
@@ -23,6 +23,12 @@ export class Projenrc extends Component {
 
     this.rcfile = options.filename ?? '.projenrc.ts';
 
+    // ejected projects are no longer synthesized by projen (the file is
+    // removed during synthesis)
+    if (project.ejected) {
+      return;
+    }
+
     // tell eslint to take .projenrc.ts into account as a dev-dependency
     project.eslint?.allowDevDeps(this.rcfile);
     project.eslint?.addIgnorePattern(`!${this.rcfile}`);
@@ -37,6 +43,12 @@ export class Projenrc extends Component {
     this.generateProjenrc();
   }
 
+  public synthesize() {
+    if (this.project.ejected) {
+      removeSync(resolve(this.project.outdir, this.rcfile));
+    }
+  }
+
   private generateProjenrc() {
     const rcfile = resolve(this.project.outdir, this.rcfile);
     if (existsSync(rcfile)) {
@@ -53,16 +65,18 @@ export class Projenrc extends Component {
     const importName = parts[1];
     const className = parts.slice(1).join('.');
 
-    const { renderedOptions, imports } = renderJavaScriptOptions({
+    const { renderedOptions, imports } = renderProjectOptions({
+      language: ProjenrcLanguage.TYPESCRIPT,
       args: bootstrap.args,
       type: bootstrap.type,
       comments: bootstrap.comments,
     });
 
-    imports.add(importName);
+    // enums are imported through their submodule (e.g. `web.MyEnum`)
+    const importNames = new Set([importName, ...[...imports].map(fqn => fqn.split('.')[1])]);
 
     const lines = new Array<string>();
-    lines.push(`import { ${[...imports].sort().join(', ')} } from '${moduleName}';`);
+    lines.push(`import { ${[...importNames].sort().join(', ')} } from '${moduleName}';`);
     lines.push();
     lines.push(`const project = new ${className}(${renderedOptions});`);
     lines.push();
@@ -137,8 +137,15 @@ export class UpgradeDependencies extends Component {
     // run "yarn/npm install" to update the lockfile and install any deps (such as projen)
     task.exec(this._project.package.installAndUpdateLockfileCommand);
 
+    // run "projen migrate" to update projenrc for changes in the new version of projen
+    if (!(this.options.ignoreProjen ?? true) && !this._project.ejected) {
+      task.exec(`${this._project.projenCommand} migrate --no-synth`);
+    }
+
     // run "projen" to give projen a chance to update dependencies (it will also run "yarn install")
-    task.exec(this._project.projenCommand);
+    if (!this._project.ejected) {
+      task.exec(this._project.projenCommand);
+    }
 
     return task;
   }
@@ -0,0 +1,248 @@
+/**
+ * Options for `unifiedDiff`.
+ */
+export interface UnifiedDiffOptions {
+  /**
+   * The label of the original file (used in the `---` header).
+   */
+  readonly fromFile: string;
+
+  /**
+   * The label of the modified file (used in the `+++` header).
+   */
+  readonly toFile: string;
+
+  /**
+   * Number of unchanged lines to show around each change.
+   * @default 3
+   */
+  readonly context?: number;
+}
+
+interface Edit {
+  readonly op: ' ' | '-' | '+';
+  readonly line: string;
+}
+
+/**
+ * Renders a unified diff between two texts (similar to `diff -u`).
+ *
+ * @returns the diff or an empty string if the texts are identical
+ */
+export function unifiedDiff(from: string, to: string, options: UnifiedDiffOptions): string {
+  if (from === to) {
+    return '';
+  }
+
+  const edits = diffLines(splitLines(from), splitLines(to));
+  const context = options.context ?? 3;
+
+  const lines = new Array<string>();
+  lines.push(`--- ${options.fromFile}`);
+  lines.push(`+++ ${options.toFile}`);
+
+  for (const hunk of groupHunks(edits, context)) {
+    lines.push(hunk.header);
+    for (const line of hunk.lines) {
+      lines.push(line);
+    }
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Marks the last line of a text which does not end with a newline. Lines are
+ * compared including the marker, so adding or removing the final newline is a
+ * change of the last line (like in `diff -u`).
+ */
+const NO_NEWLINE = '\u0000';
+
+function splitLines(text: string) {
+  if (text === '') {
+    return [];
+  }
+
+  const lines = text.split('\n');
+
+  // a trailing newline does not start a new line
+  if (lines[lines.length - 1] === '') {
+    lines.pop();
+  } else {
+    lines[lines.length - 1] += NO_NEWLINE;
+  }
+
+  return lines;
+}
+
+/**
+ * The maximum number of edits searched for in a single range. Finding a
+ * shortest edit script takes O((N+M)D) time, so for larger rewrites (e.g. a
+ * regenerated lock file) the rest of the range is reported as replaced.
+ */
+const MAX_EDIT_COST = 1024;
+
+function renderLine(op: string, line: string) {
+  return line.endsWith(NO_NEWLINE)
+    ? [`${op}${line.slice(0, -1)}`, '\\ No newline at end of file']
+    : [`${op}${line}`];
+}
+
+/**
+ * Computes the shortest edit script between two lists of lines using Myers'
+ * O(ND) algorithm in linear space, so large rewrites do not need a table of
+ * all pairs of lines.
+ */
+function diffLines(a: string[], b: string[]): Edit[] {
+  const deleted = new Array<boolean>(a.length).fill(false);
+  const inserted = new Array<boolean>(b.length).fill(false);
+  markChanges(a, b, deleted, inserted, 0, a.length, 0, b.length);
+
+  // unchanged lines of both lists correspond to each other in order
+  const edits = new Array<Edit>();
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && deleted[i]) {
+      edits.push({ op: '-', line: a[i++] });
+    } else if (j < b.length && inserted[j]) {
+      edits.push({ op: '+', line: b[j++] });
+    } else {
+      edits.push({ op: ' ', line: a[i] });
+      i++;
+      j++;
+    }
+  }
+
+  return edits;
+}
+
+/**
+ * Marks the lines of `a[aStart..aEnd)` which are deleted and the lines of
+ * `b[bStart..bEnd)` which are inserted by finding the middle snake of the
+ * shortest edit script and recursing on both halves.
+ */
+function markChanges(
+  a: string[], b: string[],
+  deleted: boolean[], inserted: boolean[],
+  aStart: number, aEnd: number, bStart: number, bEnd: number,
+) {
+  // common prefix and suffix are unchanged
+  while (aStart < aEnd && bStart < bEnd && a[aStart] === b[bStart]) {
+    aStart++;
+    bStart++;
+  }
+  while (aStart < aEnd && bStart < bEnd && a[aEnd - 1] === b[bEnd - 1]) {
+    aEnd--;
+    bEnd--;
+  }
+
+  const n = aEnd - aStart;
+  const m = bEnd - bStart;
+  if (n === 0 || m === 0) {
+    deleted.fill(true, aStart, aEnd);
+    inserted.fill(true, bStart, bEnd);
+    return;
+  }
+
+  const total = n + m;
+  const delta = n - m;
+  const size = 2 * Math.min(n, m) + 2;
+  const forward = new Array<number>(size).fill(0);
+  const backward = new Array<number>(size).fill(0);
+  const at = (k: number) => ((k % size) + size) % size;
+
+  for (let h = 0; h <= Math.min(Math.ceil(total / 2), MAX_EDIT_COST); h++) {
+    for (const isForward of [true, false]) {
+      const v = isForward ? forward : backward;
+      const other = isForward ? backward : forward;
+      const odd = isForward ? 1 : 0;
+
+      for (let k = -(h - 2 * Math.max(0, h - m)); k <= h - 2 * Math.max(0, h - n); k += 2) {
+        let x = (k === -h || (k !== h && v[at(k - 1)] < v[at(k + 1)])) ? v[at(k + 1)] : v[at(k - 1)] + 1;
+        let y = x - k;
+        const x0 = x;
+        const y0 = y;
+        while (x < n && y < m && (isForward
+          ? a[aStart + x] === b[bStart + y]
+          : a[aEnd - 1 - x] === b[bEnd - 1 - y])) {
+          x++;
+          y++;
+        }
+        v[at(k)] = x;
+
+        const z = delta - k;
+        if (total % 2 === odd && z >= -(h - odd) && z <= h - odd && v[at(k)] + other[at(z)] >= n) {
+          // the middle snake goes from (x1, y1) to (x2, y2)
+          const [d, x1, y1, x2, y2] = isForward
+            ? [2 * h - 1, x0, y0, x, y]
+            : [2 * h, n - x, m - y, n - x0, m - y0];
+
+          if (d > 1 || (x1 !== x2 && y1 !== y2)) {
+            markChanges(a, b, deleted, inserted, aStart, aStart + x1, bStart, bStart + y1);
+            markChanges(a, b, deleted, inserted, aStart + x2, aEnd, bStart + y2, bEnd);
+          } else if (m > n) {
+            inserted.fill(true, bStart + n, bEnd);
+          } else if (m < n) {
+            deleted.fill(true, aStart + m, aEnd);
+          }
+          return;
+        }
+      }
+    }
+  }
+
+  // too expensive to find the shortest edit script
+  deleted.fill(true, aStart, aEnd);
+  inserted.fill(true, bStart, bEnd);
+}
+
+function groupHunks(edits: Edit[], context: number) {
+  const hunks = new Array<{ header: string; lines: string[] }>();
+
+  // indices of all edits which are changes
+  const changes = edits.map((e, i) => e.op === ' ' ? -1 : i).filter(i => i >= 0);
+
+  let idx = 0;
+  while (idx < changes.length) {
+    const start = Math.max(0, changes[idx] - context);
+    let end = Math.min(edits.length, changes[idx] + context + 1);
+
+    // merge subsequent changes whose context overlaps with this hunk
+    while (idx + 1 < changes.length && changes[idx + 1] - context <= end) {
+      idx++;
+      end = Math.min(edits.length, changes[idx] + context + 1);
+    }
+    idx++;
+
+    // line numbers (1-based) of the first line of the hunk in each file
+    let fromLine = 1;
+    let toLine = 1;
+    for (const e of edits.slice(0, start)) {
+      if (e.op !== '+') { fromLine++; }
+      if (e.op !== '-') { toLine++; }
+    }
+
+    const slice = edits.slice(start, end);
+    const fromCount = slice.filter(e => e.op !== '+').length;
+    const toCount = slice.filter(e => e.op !== '-').length;
+
+    const lines = new Array<string>();
+    for (const e of slice) {
+      lines.push(...renderLine(e.op, e.line));
+    }
+
+    hunks.push({
+      header: `@@ -${range(fromLine, fromCount)} +${range(toLine, toCount)} @@`,
+      lines,
+    });
+  }
+
+  return hunks;
+}
+
+function range(start: number, count: number) {
+  // an empty range is reported as the line before it (like GNU diff)
+  const first = count === 0 ? start - 1 : start;
+  return count === 1 ? `${first}` : `${first},${count}`;
+}
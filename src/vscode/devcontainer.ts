@@ -63,7 +63,7 @@ export class DevContainer extends Component implements IDevEnvironment {
       extensions: this.vscodeExtensions,
     };
 
-    new JsonFile(this.project, DEVCONTAINER_FILE, { obj: this.config, omitEmpty: true });
+    this.own(new JsonFile(this.project, DEVCONTAINER_FILE, { obj: this.config, omitEmpty: true }));
   }
 
   public addDockerImage(image: DevEnvironmentDockerImage) {